@@ -0,0 +1,177 @@
+/**
+ * SimpLLM Dashboard Auth
+ * Registers extension installs (bearer token + public key) and verifies the request signatures they send
+ */
+import { IncomingMessage } from 'http';
+import { createHash, createPublicKey, randomUUID, timingSafeEqual, verify, KeyObject } from 'crypto';
+import { ClientRow } from './db.js';
+
+// none: trust X-SimpLLM-User; token: registration bearer must be one of apiTokens; github: it must be a valid GitHub token
+export type AuthMode = 'none' | 'token' | 'github';
+
+export interface AuthOptions {
+    mode: AuthMode;
+    apiTokens: string[];
+}
+
+export interface ClientIdentity {
+    userId: string;
+    extensionVersion: string;
+    policyVersion: string;
+}
+
+// Where registered clients are kept (the dashboard database)
+export interface ClientRegistry {
+    registerClient(client: ClientRow): void;
+    getClient(clientId: string): ClientRow | undefined;
+}
+
+export class AuthError extends Error {
+    constructor(message: string, readonly status: 400 | 401 | 403) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const GITHUB_CACHE_MS = 10 * 60 * 1000;
+
+function header(req: IncomingMessage, name: string): string {
+    const value = req.headers[name];
+    return (Array.isArray(value) ? value[0] : value) ?? '';
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// Pseudonymous user id, derived here from the verified account rather than taken from the client
+const userIdFor = (account: string) => sha256(`simpllm:${account}`).slice(0, 32);
+
+/**
+ * Build the authenticator. Nonces are remembered for the allowed clock skew,
+ * so a captured request cannot be replayed.
+ */
+export function createAuthenticator(options: AuthOptions, clients: ClientRegistry) {
+    const seenNonces = new Map<string, number>();
+    const githubUsers = new Map<string, { userId: string | null; expires: number }>();
+
+    function verifySignature(req: IncomingMessage, body: string, publicKey: KeyObject) {
+        const timestamp = header(req, 'x-simpllm-timestamp');
+        const nonce = header(req, 'x-simpllm-nonce');
+        const signature = header(req, 'x-simpllm-signature');
+        if (!timestamp || !nonce || !signature) throw new AuthError('missing request signature', 401);
+
+        const now = Date.now();
+        if (Math.abs(now - Date.parse(timestamp)) > MAX_CLOCK_SKEW_MS) throw new AuthError('request timestamp outside allowed skew', 401);
+        for (const [seen, expires] of seenNonces) {
+            if (expires < now) seenNonces.delete(seen);
+        }
+        if (seenNonces.has(nonce)) throw new AuthError('replayed request', 401);
+
+        const signed = [timestamp, nonce, req.method ?? 'GET', req.url ?? '/', sha256(body)].join('\n');
+        if (!verify(null, Buffer.from(signed), publicKey, Buffer.from(signature, 'base64'))) {
+            throw new AuthError('invalid request signature', 401);
+        }
+        seenNonces.set(nonce, now + 2 * MAX_CLOCK_SKEW_MS);
+    }
+
+    /**
+     * User id for a GitHub token, or null if GitHub does not accept it
+     */
+    async function getGithubUserId(token: string): Promise<string | null> {
+        const key = sha256(token);
+        const cached = githubUsers.get(key);
+        if (cached && cached.expires > Date.now()) return cached.userId;
+
+        let userId: string | null = null;
+        try {
+            const response = await fetch('https://api.github.com/user', {
+                headers: { 'Authorization': `Bearer ${token}`, 'User-Agent': 'simpllm-dashboard' },
+                signal: AbortSignal.timeout(5000)
+            });
+            const account = response.ok ? await response.json() as { id?: unknown } : undefined;
+            if (typeof account?.id === 'number') userId = userIdFor(`github:${account.id}`);
+        } catch {
+            // GitHub unreachable: reject rather than trust an unchecked token
+        }
+        githubUsers.set(key, { userId, expires: Date.now() + GITHUB_CACHE_MS });
+        return userId;
+    }
+
+    /**
+     * Register a client: the bearer token is checked once and never used for signing.
+     * Returns the client id and the user id the server assigned.
+     */
+    async function register(req: IncomingMessage, body: string): Promise<{ clientId: string; userId: string }> {
+        if (options.mode === 'none') throw new AuthError('client registration is only needed with token or github auth', 400);
+
+        const authorization = header(req, 'authorization');
+        const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+        if (!token) throw new AuthError('authentication required', 401);
+
+        let publicKey: string;
+        try {
+            publicKey = JSON.parse(body).publicKey;
+            const key = createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+            if (key.asymmetricKeyType !== 'ed25519') throw new Error('not an Ed25519 key');
+        } catch {
+            throw new AuthError('"publicKey" must be a base64 SPKI Ed25519 public key', 400);
+        }
+
+        let userId: string | null;
+        let tokenHash: string | null = null;
+        if (options.mode === 'token') {
+            if (!options.apiTokens.some(t => safeEqual(t, token))) throw new AuthError('unknown access token', 401);
+            tokenHash = sha256(token);
+            userId = userIdFor(`token:${tokenHash}`);
+        } else {
+            userId = await getGithubUserId(token);
+            if (!userId) throw new AuthError('GitHub token rejected', 401);
+        }
+
+        const clientId = randomUUID();
+        clients.registerClient({ clientId, userId, publicKey, tokenHash, createdAt: new Date().toISOString() });
+        return { clientId, userId };
+    }
+
+    /**
+     * Identify the caller or throw AuthError. With token or github auth the user id comes
+     * from the registered client; an X-SimpLLM-User header that disagrees is refused.
+     */
+    async function authenticate(req: IncomingMessage, body: string): Promise<ClientIdentity> {
+        const claimedUserId = header(req, 'x-simpllm-user');
+        let userId: string;
+
+        if (options.mode === 'none') {
+            if (!/^[0-9a-f]{8,64}$/.test(claimedUserId)) throw new AuthError('missing or malformed X-SimpLLM-User', 400);
+            userId = claimedUserId;
+        } else {
+            const clientId = header(req, 'x-simpllm-client');
+            if (!clientId) throw new AuthError('authentication required', 401);
+            const client = clients.getClient(clientId);
+            if (!client) throw new AuthError('unknown client', 401);
+            // Removing a token from SIMPLLM_API_TOKENS revokes the clients registered with it
+            if (client.tokenHash && !options.apiTokens.some(t => safeEqual(sha256(t), client.tokenHash!))) {
+                throw new AuthError('access token revoked', 401);
+            }
+            verifySignature(req, body, createPublicKey({ key: Buffer.from(client.publicKey, 'base64'), format: 'der', type: 'spki' }));
+            if (claimedUserId && claimedUserId !== client.userId) {
+                throw new AuthError('X-SimpLLM-User does not match the registered client', 403);
+            }
+            userId = client.userId;
+        }
+
+        return {
+            userId,
+            extensionVersion: header(req, 'x-simpllm-extension-version'),
+            policyVersion: header(req, 'x-simpllm-policy-version')
+        };
+    }
+
+    return { register, authenticate };
+}
@@ -0,0 +1,290 @@
+/**
+ * SimpLLM Dashboard Storage
+ * SQLite tables for events reported by the extension, credit requests, registered clients and policy versions
+ */
+import Database from 'better-sqlite3';
+
+// Batch body the extension's outbox POSTs
+export interface EventBatch {
+    teamId?: string;
+    departmentId?: string;
+    events: IncomingEvent[];
+}
+
+// One outbox event: id is "<type>:<requestId>[:vote|override]", the rest is the payload
+export interface IncomingEvent {
+    id: string;
+    type: 'usage' | 'feedback' | 'credit_request';
+    enqueuedAt?: string;
+    [field: string]: unknown;
+}
+
+export interface Reporter {
+    userId: string;
+    teamId: string;
+    departmentId: string;
+    extensionVersion: string;
+    policyVersion: string;
+}
+
+export type CreditStatus = 'pending' | 'approved' | 'rejected';
+
+export interface CreditRequestRow {
+    id: string;
+    userId: string;
+    teamId: string;
+    departmentId: string;
+    createdAt: string;
+    amount: number;
+    reason: string;
+    currentUsage: number;
+    status: CreditStatus;
+    approvedAmount: number | null;
+    comment: string | null;
+    decidedAt: string | null;
+}
+
+// An extension install registered with POST /api/clients; it signs calls with the key
+// pair whose public half is stored here
+export interface ClientRow {
+    clientId: string;
+    userId: string;
+    publicKey: string;          // Base64 SPKI DER, Ed25519
+    tokenHash: string | null;   // SHA-256 of the admin-issued token it registered with (token mode)
+    createdAt: string;
+}
+
+export interface PolicyRow {
+    version: number;
+    issuedAt: string;
+    locked: boolean;
+    config: Record<string, unknown>;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS users (
+    user_id TEXT PRIMARY KEY,
+    team_id TEXT NOT NULL DEFAULT '',
+    department_id TEXT NOT NULL DEFAULT '',
+    extension_version TEXT NOT NULL DEFAULT '',
+    policy_version TEXT NOT NULL DEFAULT '',
+    last_seen TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS usage (
+    user_id TEXT NOT NULL,
+    request_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    model TEXT NOT NULL,
+    task_type TEXT NOT NULL,
+    credit_multiplier REAL NOT NULL DEFAULT 0,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    response_time INTEGER,
+    team_id TEXT NOT NULL DEFAULT '',
+    department_id TEXT NOT NULL DEFAULT '',
+    PRIMARY KEY (user_id, request_id)
+);
+CREATE INDEX IF NOT EXISTS usage_timestamp ON usage (timestamp);
+CREATE TABLE IF NOT EXISTS feedback (
+    user_id TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    request_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    selected_model TEXT NOT NULL,
+    task_type TEXT NOT NULL,
+    rating TEXT NOT NULL,
+    overridden_to TEXT,
+    team_id TEXT NOT NULL DEFAULT '',
+    department_id TEXT NOT NULL DEFAULT '',
+    PRIMARY KEY (user_id, event_id)
+);
+CREATE INDEX IF NOT EXISTS feedback_timestamp ON feedback (timestamp);
+CREATE TABLE IF NOT EXISTS credit_requests (
+    id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    team_id TEXT NOT NULL DEFAULT '',
+    department_id TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL,
+    amount REAL NOT NULL,
+    reason TEXT NOT NULL,
+    current_usage REAL NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'pending',
+    approved_amount REAL,
+    comment TEXT,
+    decided_at TEXT,
+    PRIMARY KEY (user_id, id)
+);
+CREATE TABLE IF NOT EXISTS clients (
+    client_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    token_hash TEXT,
+    created_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS policies (
+    version INTEGER PRIMARY KEY,
+    issued_at TEXT NOT NULL,
+    locked INTEGER NOT NULL DEFAULT 0,
+    config TEXT NOT NULL
+);
+`;
+
+export type DashboardDb = ReturnType<typeof openDatabase>;
+
+// Largest credit request (and approval) accepted; the extension's request form has the same cap
+export const MAX_CREDIT_AMOUNT = 10000;
+
+/**
+ * Open (and migrate) the database; ":memory:" works for tests
+ */
+export function openDatabase(path: string) {
+    const db = new Database(path);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+
+    const upsertUser = db.prepare(`
+        INSERT INTO users (user_id, team_id, department_id, extension_version, policy_version, last_seen)
+        VALUES (@userId, @teamId, @departmentId, @extensionVersion, @policyVersion, @now)
+        ON CONFLICT (user_id) DO UPDATE SET team_id = excluded.team_id, department_id = excluded.department_id,
+            extension_version = excluded.extension_version, policy_version = excluded.policy_version, last_seen = excluded.last_seen`);
+    // A retried batch must not count twice
+    const insertUsage = db.prepare(`
+        INSERT OR IGNORE INTO usage (user_id, request_id, timestamp, model, task_type, credit_multiplier,
+            input_tokens, output_tokens, response_time, team_id, department_id)
+        VALUES (@userId, @requestId, @timestamp, @model, @taskType, @creditMultiplier,
+            @inputTokens, @outputTokens, @responseTime, @teamId, @departmentId)`);
+    // A later vote on the same answer replaces the earlier one
+    const upsertFeedback = db.prepare(`
+        INSERT OR REPLACE INTO feedback (user_id, event_id, request_id, timestamp, selected_model, task_type,
+            rating, overridden_to, team_id, department_id)
+        VALUES (@userId, @eventId, @requestId, @timestamp, @selectedModel, @taskType,
+            @rating, @overriddenTo, @teamId, @departmentId)`);
+    // Re-sent requests must not reset a decision
+    const insertCreditRequest = db.prepare(`
+        INSERT OR IGNORE INTO credit_requests (id, user_id, team_id, department_id, created_at, amount, reason, current_usage)
+        VALUES (@id, @userId, @teamId, @departmentId, @createdAt, @amount, @reason, @currentUsage)`);
+
+    const str = (value: unknown, fallback = '') => typeof value === 'string' ? value : fallback;
+    const num = (value: unknown, fallback = 0) => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+    /**
+     * Store a batch; returns how many events were well-formed
+     */
+    const recordEvents = db.transaction((reporter: Reporter, batch: EventBatch): number => {
+        const now = new Date().toISOString();
+        upsertUser.run({ ...reporter, now });
+        const { userId, teamId, departmentId } = reporter;
+        let accepted = 0;
+
+        for (const event of batch.events) {
+            // Malformed entries are skipped: throwing would roll back the whole batch and
+            // the client would resend it forever
+            if (typeof event !== 'object' || event === null || Array.isArray(event)) continue;
+            if (typeof event.id !== 'string' || !event.id) continue;
+
+            const timestamp = str(event.timestamp, str(event.enqueuedAt, now));
+            const requestId = str(event.requestId);
+            if (!requestId) continue;
+
+            if (event.type === 'usage') {
+                insertUsage.run({
+                    userId, teamId, departmentId, requestId, timestamp,
+                    model: str(event.model, 'unknown'),
+                    taskType: str(event.taskType, 'unknown'),
+                    creditMultiplier: num(event.creditMultiplier),
+                    inputTokens: Math.round(num(event.inputTokens)),
+                    outputTokens: Math.round(num(event.outputTokens)),
+                    responseTime: typeof event.responseTime === 'number' ? Math.round(event.responseTime) : null
+                });
+            } else if (event.type === 'feedback') {
+                if (!['positive', 'negative', 'override'].includes(str(event.rating))) continue;
+                upsertFeedback.run({
+                    userId, teamId, departmentId, requestId, timestamp,
+                    eventId: event.id,
+                    selectedModel: str(event.selectedModel, 'unknown'),
+                    taskType: str(event.taskType, 'unknown'),
+                    rating: event.rating,
+                    overriddenTo: str(event.overriddenTo) || null
+                });
+            } else if (event.type === 'credit_request') {
+                const amount = num(event.amount);
+                if (!(amount > 0 && amount <= MAX_CREDIT_AMOUNT)) continue;
+                insertCreditRequest.run({
+                    userId, teamId, departmentId,
+                    id: requestId,
+                    createdAt: timestamp,
+                    amount,
+                    reason: str(event.reason),
+                    currentUsage: num(event.currentUsage)
+                });
+            } else {
+                continue;
+            }
+            accepted++;
+        }
+        return accepted;
+    });
+
+    return {
+        db,
+        recordEvents,
+
+        // ---- Credit requests ----
+
+        getCreditRequests(userId: string, ids: string[]): CreditRequestRow[] {
+            if (ids.length === 0) return [];
+            return db.prepare(`SELECT ${CREDIT_COLUMNS} FROM credit_requests WHERE user_id = ? AND id IN (${ids.map(() => '?').join(',')})`)
+                .all(userId, ...ids) as CreditRequestRow[];
+        },
+
+        listCreditRequests(): CreditRequestRow[] {
+            return db.prepare(`SELECT ${CREDIT_COLUMNS} FROM credit_requests ORDER BY status = 'pending' DESC, created_at DESC LIMIT 500`)
+                .all() as CreditRequestRow[];
+        },
+
+        /**
+         * Approve or reject a pending request; false if it was already decided
+         */
+        decideCreditRequest(userId: string, id: string, status: 'approved' | 'rejected', approvedAmount: number | null, comment: string): boolean {
+            const result = db.prepare(`
+                UPDATE credit_requests SET status = ?, approved_amount = ?, comment = ?, decided_at = ?
+                WHERE user_id = ? AND id = ? AND status = 'pending'`)
+                .run(status, status === 'approved' ? approvedAmount : null, comment || null, new Date().toISOString(), userId, id);
+            return result.changes > 0;
+        },
+
+        // ---- Clients ----
+
+        registerClient(client: ClientRow) {
+            db.prepare(`INSERT INTO clients (client_id, user_id, public_key, token_hash, created_at)
+                VALUES (@clientId, @userId, @publicKey, @tokenHash, @createdAt)`).run(client);
+        },
+
+        getClient(clientId: string): ClientRow | undefined {
+            return db.prepare(`SELECT client_id AS clientId, user_id AS userId, public_key AS publicKey,
+                token_hash AS tokenHash, created_at AS createdAt FROM clients WHERE client_id = ?`).get(clientId) as ClientRow | undefined;
+        },
+
+        // ---- Policy ----
+
+        getLatestPolicy(): PolicyRow | undefined {
+            const row = db.prepare('SELECT version, issued_at, locked, config FROM policies ORDER BY version DESC LIMIT 1')
+                .get() as { version: number; issued_at: string; locked: number; config: string } | undefined;
+            return row && { version: row.version, issuedAt: row.issued_at, locked: row.locked === 1, config: JSON.parse(row.config) };
+        },
+
+        /**
+         * Store a new policy version (versions only go up, so clients never downgrade)
+         */
+        savePolicy(config: Record<string, unknown>, locked: boolean): PolicyRow {
+            const version = ((db.prepare('SELECT MAX(version) AS v FROM policies').get() as { v: number | null }).v ?? 0) + 1;
+            const issuedAt = new Date().toISOString();
+            db.prepare('INSERT INTO policies (version, issued_at, locked, config) VALUES (?, ?, ?, ?)')
+                .run(version, issuedAt, locked ? 1 : 0, JSON.stringify(config));
+            return { version, issuedAt, locked, config };
+        }
+    };
+}
+
+const CREDIT_COLUMNS = `id, user_id AS userId, team_id AS teamId, department_id AS departmentId, created_at AS createdAt,
+    amount, reason, current_usage AS currentUsage, status, approved_amount AS approvedAmount, comment, decided_at AS decidedAt`;
@@ -0,0 +1,39 @@
+/**
+ * SimpLLM Dashboard entry point: configuration comes from environment variables
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { createDashboard } from './server.js';
+import { AuthMode } from './auth.js';
+
+const dataDir = process.env.SIMPLLM_DATA_DIR ?? path.resolve('data');
+const port = Number(process.env.PORT ?? 3000);
+const authMode = (process.env.SIMPLLM_AUTH ?? 'none') as AuthMode;
+
+if (!['none', 'token', 'github'].includes(authMode)) {
+    console.error(`SIMPLLM_AUTH must be none, token or github (got "${authMode}")`);
+    process.exit(1);
+}
+
+fs.mkdirSync(dataDir, { recursive: true });
+const dashboard = createDashboard({
+    dbPath: path.join(dataDir, 'simpllm.db'),
+    policyKeyFile: process.env.SIMPLLM_POLICY_KEY_FILE ?? path.join(dataDir, 'policy-key.pem'),
+    adminPassword: process.env.SIMPLLM_ADMIN_PASSWORD || undefined,
+    auth: {
+        mode: authMode,
+        apiTokens: (process.env.SIMPLLM_API_TOKENS ?? '').split(',').map(t => t.trim()).filter(Boolean)
+    }
+});
+
+dashboard.server.listen(port, () => {
+    console.log(`SimpLLM dashboard on http://localhost:${port} (API auth: ${authMode})`);
+    if (!process.env.SIMPLLM_ADMIN_PASSWORD) {
+        console.warn('SIMPLLM_ADMIN_PASSWORD is not set: admin pages are open to anyone who can reach this port');
+    }
+    console.log(`Policy public key (bundle in extension/src/centralPolicy.ts):\n${dashboard.signingKey.publicKeyPem}`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => dashboard.close().then(() => process.exit(0)));
+}
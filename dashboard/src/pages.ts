@@ -0,0 +1,251 @@
+/**
+ * SimpLLM Dashboard Pages
+ * Server-rendered HTML for the admin pages (same look as the extension's admin panel)
+ */
+import { CreditRequestRow, PolicyRow } from './db.js';
+import { Overview, DailyUsage, Distribution, UserSummary, FeedbackRow, OverrideSummary } from './reports.js';
+import { CREDIT_TIERS } from './policy.js';
+
+export type PageId = 'dashboard' | 'users' | 'feedback' | 'settings' | 'credit-requests';
+
+const TABS: Array<[PageId, string, string]> = [
+    ['dashboard', 'Dashboard', '/'],
+    ['users', 'Users', '/users'],
+    ['feedback', 'Feedback', '/feedback'],
+    ['settings', 'Settings', '/settings'],
+    ['credit-requests', 'Credit Requests', '/credit-requests']
+];
+
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+const credits = (value: number) => `${value.toFixed(1)}x`;
+const satisfaction = (positive: number, negative: number) =>
+    positive + negative > 0 ? `${Math.round(positive / (positive + negative) * 100)}%` : '—';
+const shortId = (userId: string) => `<code title="${escapeHtml(userId)}">${escapeHtml(userId.slice(0, 10))}</code>`;
+
+function layout(active: PageId, body: string): string {
+    const tabs = TABS.map(([id, label, href]) =>
+        `<a class="tab${id === active ? ' active' : ''}" href="${href}">${label}</a>`).join('');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>SimpLLM Admin</title>
+<style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #0d1117; color: #c9d1d9; }
+    a { color: #58a6ff; text-decoration: none; }
+    .header { background: linear-gradient(135deg, #161b22 0%, #0d1117 100%); border-bottom: 1px solid #30363d; padding: 24px 32px; display: flex; align-items: center; gap: 12px; }
+    .header h1 { font-size: 20px; font-weight: 600; }
+    .header .badge { background: #238636; color: #fff; padding: 2px 8px; border-radius: 12px; font-size: 11px; }
+    .tabs { display: flex; border-bottom: 1px solid #30363d; background: #161b22; padding: 0 32px; }
+    .tab { padding: 12px 16px; border-bottom: 2px solid transparent; color: #8b949e; font-size: 13px; font-weight: 500; }
+    .tab.active { color: #c9d1d9; border-bottom-color: #f78166; }
+    .content { padding: 24px 32px; }
+    .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 16px; margin-bottom: 24px; }
+    .card { background: #161b22; border: 1px solid #30363d; border-radius: 8px; padding: 20px; }
+    .card .label { font-size: 12px; color: #8b949e; text-transform: uppercase; letter-spacing: 0.5px; }
+    .card .value { font-size: 28px; font-weight: 600; margin-top: 4px; }
+    .green { color: #3fb950; } .blue { color: #58a6ff; } .orange { color: #d29922; } .red { color: #f85149; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; padding: 10px 12px; font-size: 12px; color: #8b949e; border-bottom: 1px solid #30363d; font-weight: 500; }
+    td { padding: 10px 12px; border-bottom: 1px solid #21262d; font-size: 13px; vertical-align: top; }
+    .bar { background: #1f6feb; height: 10px; border-radius: 3px; }
+    .section-title { font-size: 16px; font-weight: 600; margin: 24px 0 12px; }
+    .empty { color: #8b949e; text-align: center; padding: 40px; }
+    .error { background: #3d1518; border: 1px solid #f85149; border-radius: 6px; padding: 12px; margin-bottom: 16px; white-space: pre-wrap; }
+    .notice { background: #12261e; border: 1px solid #238636; border-radius: 6px; padding: 12px; margin-bottom: 16px; }
+    label { display: block; font-size: 12px; color: #8b949e; margin: 16px 0 6px; }
+    input, select, textarea { background: #0d1117; color: #c9d1d9; border: 1px solid #30363d; border-radius: 6px; padding: 8px; font-size: 13px; }
+    textarea { width: 100%; min-height: 140px; font-family: monospace; font-size: 12px; }
+    .btn { background: #238636; color: #fff; border: none; padding: 8px 16px; border-radius: 6px; cursor: pointer; font-size: 13px; font-weight: 500; }
+    .btn.danger { background: #da3633; }
+    pre { background: #161b22; border: 1px solid #30363d; border-radius: 6px; padding: 12px; font-size: 12px; overflow-x: auto; }
+</style>
+</head>
+<body>
+    <div class="header">
+        <span style="font-size:24px">⚡</span>
+        <h1>SimpLLM Admin</h1>
+        <span class="badge">Self-hosted</span>
+    </div>
+    <nav class="tabs">${tabs}</nav>
+    <div class="content">${body}</div>
+</body>
+</html>`;
+}
+
+function barTable(rows: Distribution[], label: string): string {
+    if (rows.length === 0) return '<div class="empty">No usage yet</div>';
+    const max = Math.max(...rows.map(r => r.requests));
+    return `<table><tr><th>${label}</th><th>Requests</th><th>Credits</th><th style="width:40%"></th></tr>${rows.map(r => `
+        <tr><td>${escapeHtml(r.key)}</td><td>${r.requests}</td><td>${credits(r.credits)}</td>
+        <td><div class="bar" style="width:${Math.round(r.requests / max * 100)}%"></div></td></tr>`).join('')}</table>`;
+}
+
+// ============================================
+// PAGES
+// ============================================
+
+export function renderDashboard(overview: Overview, daily: DailyUsage[], models: Distribution[], tasks: Distribution[]): string {
+    const maxDaily = Math.max(1, ...daily.map(d => d.requests));
+    const dailyRows = daily.map(d => `
+        <tr><td>${d.day}</td><td>${d.requests}</td><td>${credits(d.credits)}</td>
+        <td><div class="bar" style="width:${Math.round(d.requests / maxDaily * 100)}%"></div></td></tr>`).join('');
+
+    return layout('dashboard', `
+        <div class="grid">
+            <div class="card"><div class="label">Active Users (${overview.month})</div><div class="value blue">${overview.activeUsers}</div></div>
+            <div class="card"><div class="label">Requests</div><div class="value blue">${overview.requests}</div></div>
+            <div class="card"><div class="label">Credits Used</div><div class="value orange">${credits(overview.credits)}</div></div>
+            <div class="card"><div class="label">Satisfaction</div><div class="value green">${satisfaction(overview.positive, overview.negative)}</div></div>
+            <div class="card"><div class="label">Pending Credit Requests</div><div class="value ${overview.pendingCreditRequests > 0 ? 'red' : 'green'}">${overview.pendingCreditRequests}</div></div>
+        </div>
+        <div class="section-title">Daily Usage (last 30 days)</div>
+        ${daily.length === 0 ? '<div class="empty">No usage yet</div>' : `<table><tr><th>Day</th><th>Requests</th><th>Credits</th><th style="width:40%"></th></tr>${dailyRows}</table>`}
+        <div class="section-title">Models</div>
+        ${barTable(models, 'Model')}
+        <div class="section-title">Task Types</div>
+        ${barTable(tasks, 'Task')}`);
+}
+
+export function renderUsers(month: string, users: UserSummary[]): string {
+    const rows = users.map(u => `
+        <tr><td>${shortId(u.userId)}</td><td>${escapeHtml(u.teamId || '—')}</td><td>${escapeHtml(u.departmentId || '—')}</td>
+        <td>${u.requests}</td><td>${credits(u.credits)}</td><td>${satisfaction(u.positive, u.negative)}</td>
+        <td>${escapeHtml(u.extensionVersion)}</td><td>${escapeHtml(u.policyVersion)}</td><td>${escapeHtml(u.lastSeen.slice(0, 16).replace('T', ' '))}</td></tr>`).join('');
+    return layout('users', `
+        <p style="color:#8b949e;margin-bottom:16px">Users are pseudonymous ids reported by the extension. Usage for ${month}.</p>
+        ${users.length === 0 ? '<div class="empty">No users have reported yet</div>' : `
+        <table><tr><th>User</th><th>Team</th><th>Department</th><th>Requests</th><th>Credits</th><th>Satisfaction</th>
+        <th>Extension</th><th>Policy</th><th>Last Seen (UTC)</th></tr>${rows}</table>`}`);
+}
+
+export function renderFeedback(feedback: FeedbackRow[], overrides: OverrideSummary[]): string {
+    const ratingLabel = (f: FeedbackRow) => f.rating === 'positive' ? '👍'
+        : f.rating === 'negative' ? '👎'
+        : `🔄 → ${escapeHtml(f.overriddenTo ?? '?')}`;
+    const rows = feedback.map(f => `
+        <tr><td>${escapeHtml(f.timestamp.slice(0, 16).replace('T', ' '))}</td><td>${shortId(f.userId)}</td>
+        <td>${escapeHtml(f.selectedModel)}</td><td>${escapeHtml(f.taskType)}</td><td>${ratingLabel(f)}</td></tr>`).join('');
+    const overrideRows = overrides.map(o => `
+        <tr><td>${escapeHtml(o.fromModel)}</td><td>${escapeHtml(o.toModel)}</td><td>${o.count}</td></tr>`).join('');
+
+    return layout('feedback', `
+        <p style="margin-bottom:16px"><a href="/feedback.csv">⬇ Export CSV</a></p>
+        <div class="section-title">Override Analysis</div>
+        ${overrides.length === 0 ? '<div class="empty">No overrides yet</div>' : `<table><tr><th>Routed To</th><th>Switched To</th><th>Count</th></tr>${overrideRows}</table>`}
+        <div class="section-title">Recent Feedback</div>
+        ${feedback.length === 0 ? '<div class="empty">No feedback yet</div>' : `<table><tr><th>Time (UTC)</th><th>User</th><th>Model</th><th>Task</th><th>Rating</th></tr>${rows}</table>`}`);
+}
+
+export interface SettingsForm {
+    classifierModel: string;
+    monthlyBudget: string;
+    maxCreditTier: string;
+    blockedModels: string;
+    taskRouting: string;
+    departmentRules: string;
+    teamRules: string;
+    budgetPolicy: string;
+    locked: boolean;
+}
+
+/**
+ * Form values for the latest policy; fields it does not set stay empty
+ */
+export function policyToForm(policy: PolicyRow | undefined): SettingsForm {
+    const config = policy?.config ?? {};
+    const json = (value: unknown) => value === undefined ? '' : JSON.stringify(value, null, 2);
+    return {
+        classifierModel: String(config.classifierModel ?? ''),
+        monthlyBudget: String(config.monthlyBudget ?? ''),
+        maxCreditTier: String(config.maxCreditTier ?? ''),
+        blockedModels: ((config.blockedModels as string[] | undefined) ?? []).join(', '),
+        taskRouting: json(config.taskRouting),
+        departmentRules: json(config.departmentRules),
+        teamRules: json(config.teamRules),
+        budgetPolicy: json(config.budgetPolicy),
+        locked: policy?.locked ?? false
+    };
+}
+
+export function renderSettings(form: SettingsForm, policy: PolicyRow | undefined, publicKeyPem: string, errors: string[] = [], saved = false): string {
+    const tierOptions = ['', ...CREDIT_TIERS]
+        .map(t => `<option value="${t}"${t === form.maxCreditTier ? ' selected' : ''}>${t || '(not set)'}</option>`).join('');
+    const textarea = (name: keyof SettingsForm, label: string) =>
+        `<label for="${name}">${label}</label><textarea id="${name}" name="${name}">${escapeHtml(form[name])}</textarea>`;
+
+    return layout('settings', `
+        ${errors.length > 0 ? `<div class="error">${errors.map(escapeHtml).join('\n')}</div>` : ''}
+        ${saved ? `<div class="notice">Published policy v${policy?.version}. Clients pick it up within an hour.</div>` : ''}
+        <p style="color:#8b949e">${policy ? `Active policy: <b>v${policy.version}</b> (${escapeHtml(policy.issuedAt)})${policy.locked ? ' · 🔒 locked' : ''}` : 'No policy published yet; clients use their local settings.'}</p>
+        <form method="post" action="/settings">
+            <p style="color:#8b949e">Only filled-in fields are published; clients keep their local value for the rest unless the policy is locked.</p>
+            <label for="classifierModel">Classifier Model</label>
+            <input id="classifierModel" name="classifierModel" value="${escapeHtml(form.classifierModel)}">
+            <label for="monthlyBudget">Monthly Budget (credits per developer)</label>
+            <input id="monthlyBudget" name="monthlyBudget" type="number" min="0" value="${escapeHtml(form.monthlyBudget)}">
+            <label for="maxCreditTier">Max Credit Tier</label>
+            <select id="maxCreditTier" name="maxCreditTier">${tierOptions}</select>
+            <label for="blockedModels">Blocked Models (comma-separated ids)</label>
+            <input id="blockedModels" name="blockedModels" style="width:100%" value="${escapeHtml(form.blockedModels)}">
+            ${textarea('taskRouting', 'Routing Rules (task type → model id)')}
+            ${textarea('departmentRules', 'Department Rules')}
+            ${textarea('teamRules', 'Team Rules')}
+            ${textarea('budgetPolicy', 'Budget Thresholds (e.g. [{"percent": 80, "maxTier": "cheap"}])')}
+            <label><input type="checkbox" name="locked" value="1"${form.locked ? ' checked' : ''}> Lock policy (clients ignore their local settings)</label>
+            <p style="margin-top:16px"><button class="btn" type="submit">Publish Policy</button></p>
+        </form>
+        <div class="section-title">Policy Signing Key</div>
+        <p style="color:#8b949e;margin-bottom:8px">Bundle this public key as <code>POLICY_PUBLIC_KEY</code> in <code>extension/src/centralPolicy.ts</code> so clients accept policies from this server.</p>
+        <pre>${escapeHtml(publicKeyPem)}</pre>`);
+}
+
+export function renderCreditRequests(requests: CreditRequestRow[], errors: string[] = []): string {
+    const pending = requests.filter(r => r.status === 'pending');
+    const decided = requests.filter(r => r.status !== 'pending');
+
+    const pendingRows = pending.map(r => `
+        <tr><td>${escapeHtml(r.createdAt.slice(0, 16).replace('T', ' '))}</td><td>${shortId(r.userId)}</td>
+        <td>${escapeHtml(r.teamId || '—')}</td><td>${r.amount}</td><td>${credits(r.currentUsage)}</td><td>${escapeHtml(r.reason)}</td>
+        <td>
+            <form method="post" action="/credit-requests/decide">
+                <input type="hidden" name="userId" value="${escapeHtml(r.userId)}">
+                <input type="hidden" name="id" value="${escapeHtml(r.id)}">
+                <input name="approvedAmount" type="number" min="0" step="any" value="${r.amount}" style="width:80px">
+                <input name="comment" placeholder="Comment" style="width:180px">
+                <button class="btn" name="decision" value="approved">Approve</button>
+                <button class="btn danger" name="decision" value="rejected">Reject</button>
+            </form>
+        </td></tr>`).join('');
+    const decidedRows = decided.map(r => `
+        <tr><td>${escapeHtml(r.createdAt.slice(0, 10))}</td><td>${shortId(r.userId)}</td><td>${r.amount}</td>
+        <td>${r.status === 'approved' ? `✅ ${r.approvedAmount}` : '❌ Rejected'}</td>
+        <td>${escapeHtml(r.comment ?? '')}</td><td>${escapeHtml((r.decidedAt ?? '').slice(0, 16).replace('T', ' '))}</td></tr>`).join('');
+
+    return layout('credit-requests', `
+        ${errors.length > 0 ? `<div class="error">${errors.map(escapeHtml).join('\n')}</div>` : ''}
+        <div class="section-title">Pending</div>
+        ${pending.length === 0 ? '<div class="empty">No pending requests</div>' : `
+        <table><tr><th>Requested (UTC)</th><th>User</th><th>Team</th><th>Credits</th><th>Used</th><th>Reason</th><th>Decision</th></tr>${pendingRows}</table>`}
+        <div class="section-title">Decided</div>
+        ${decided.length === 0 ? '<div class="empty">No decisions yet</div>' : `
+        <table><tr><th>Requested</th><th>User</th><th>Asked</th><th>Decision</th><th>Comment</th><th>Decided (UTC)</th></tr>${decidedRows}</table>`}`);
+}
+
+/**
+ * CSV for the feedback export
+ */
+export function feedbackCsv(feedback: FeedbackRow[]): string {
+    const cell = (value: unknown) => {
+        const text = String(value ?? '');
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const header = ['timestamp', 'userId', 'requestId', 'selectedModel', 'taskType', 'rating', 'overriddenTo'];
+    return [header.join(','), ...feedback.map(f => header.map(key => cell(f[key as keyof FeedbackRow])).join(','))].join('\n') + '\n';
+}
@@ -0,0 +1,102 @@
+/**
+ * SimpLLM Dashboard Policy
+ * Validates admin settings and signs published policies with the server's Ed25519 key
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { KeyObject, createPrivateKey, createPublicKey, generateKeyPairSync, sign } from 'crypto';
+import { PolicyRow } from './db.js';
+
+// What GET /api/policy returns; the extension verifies it against its bundled public key
+export interface SignedPolicyDocument {
+    payload: string;
+    signature: string;
+}
+
+export interface PolicySigningKey {
+    privateKey: KeyObject;
+    publicKeyPem: string;
+}
+
+export const CREDIT_TIERS = ['free', 'cheap', 'standard', 'premium'];
+
+/**
+ * Load the signing key, generating (and saving) one on first start. Without a file the
+ * key only lives as long as the process.
+ */
+export function loadSigningKey(file?: string): PolicySigningKey {
+    let privateKey: KeyObject;
+    if (file && fs.existsSync(file)) {
+        privateKey = createPrivateKey(fs.readFileSync(file, 'utf8'));
+    } else {
+        privateKey = generateKeyPairSync('ed25519').privateKey;
+        if (file) {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+        }
+    }
+    const publicKeyPem = createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+    return { privateKey, publicKeyPem };
+}
+
+export function signPolicy(policy: PolicyRow, key: PolicySigningKey): SignedPolicyDocument {
+    const payload = Buffer.from(JSON.stringify(policy), 'utf8');
+    return {
+        payload: payload.toString('base64'),
+        signature: sign(null, payload, key.privateKey).toString('base64')
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Check policy config the way the extension reads it, returning readable errors
+ */
+export function validatePolicyConfig(config: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    const checkRule = (where: string, rule: Record<string, unknown>) => {
+        for (const key of ['allowedModels', 'blockedModels']) {
+            if (rule[key] !== undefined && !isStringList(rule[key])) errors.push(`${where}.${key} must be an array of model ids`);
+        }
+        if (rule.taskRouting !== undefined && !isRecord(rule.taskRouting)) errors.push(`${where}.taskRouting must be an object`);
+        if (rule.maxCreditTier !== undefined && !CREDIT_TIERS.includes(rule.maxCreditTier as string)) {
+            errors.push(`${where}.maxCreditTier must be one of ${CREDIT_TIERS.join(', ')}`);
+        }
+        if (rule.monthlyBudget !== undefined && !(typeof rule.monthlyBudget === 'number' && rule.monthlyBudget >= 0)) {
+            errors.push(`${where}.monthlyBudget must be a number >= 0`);
+        }
+    };
+
+    checkRule('policy', config);
+    if (config.classifierModel !== undefined && typeof config.classifierModel !== 'string') {
+        errors.push('policy.classifierModel must be a model id');
+    }
+    for (const key of ['teamId', 'departmentId']) {
+        if (config[key] !== undefined && typeof config[key] !== 'string') errors.push(`policy.${key} must be a string`);
+    }
+    const thresholds = config.budgetPolicy;
+    if (thresholds !== undefined) {
+        const valid = Array.isArray(thresholds) && thresholds.every(t =>
+            isRecord(t) && typeof t.percent === 'number' && t.percent >= 0 && CREDIT_TIERS.includes(t.maxTier as string));
+        if (!valid) errors.push(`budgetPolicy must be an array of { "percent": number >= 0, "maxTier": ${CREDIT_TIERS.join(' | ')} }`);
+    }
+    for (const key of ['departmentRules', 'teamRules']) {
+        const rules = config[key];
+        if (rules === undefined) continue;
+        if (!isRecord(rules)) {
+            errors.push(`${key} must be an object keyed by id`);
+            continue;
+        }
+        for (const [id, rule] of Object.entries(rules)) {
+            if (isRecord(rule)) checkRule(`${key}.${id}`, rule);
+            else errors.push(`${key}.${id} must be an object`);
+        }
+    }
+    return errors;
+}
@@ -0,0 +1,123 @@
+/**
+ * SimpLLM Dashboard Reports
+ * Aggregate queries behind the dashboard pages
+ */
+import { DashboardDb } from './db.js';
+
+export interface Overview {
+    month: string;
+    activeUsers: number;
+    requests: number;
+    credits: number;
+    inputTokens: number;
+    outputTokens: number;
+    positive: number;
+    negative: number;
+    pendingCreditRequests: number;
+}
+
+export interface DailyUsage {
+    day: string;
+    requests: number;
+    credits: number;
+}
+
+export interface Distribution {
+    key: string;
+    requests: number;
+    credits: number;
+}
+
+export interface UserSummary {
+    userId: string;
+    teamId: string;
+    departmentId: string;
+    extensionVersion: string;
+    policyVersion: string;
+    lastSeen: string;
+    requests: number;
+    credits: number;
+    positive: number;
+    negative: number;
+}
+
+export interface FeedbackRow {
+    userId: string;
+    requestId: string;
+    timestamp: string;
+    selectedModel: string;
+    taskType: string;
+    rating: 'positive' | 'negative' | 'override';
+    overriddenTo: string | null;
+}
+
+export interface OverrideSummary {
+    fromModel: string;
+    toModel: string;
+    count: number;
+}
+
+/**
+ * Calendar month key (YYYY-MM, UTC) matching the ISO timestamps the extension sends
+ */
+export function monthKey(date: Date): string {
+    return date.toISOString().slice(0, 7);
+}
+
+export function getOverview({ db }: DashboardDb, month: string): Overview {
+    const usage = db.prepare(`
+        SELECT COUNT(DISTINCT user_id) AS activeUsers, COUNT(*) AS requests, COALESCE(SUM(credit_multiplier), 0) AS credits,
+            COALESCE(SUM(input_tokens), 0) AS inputTokens, COALESCE(SUM(output_tokens), 0) AS outputTokens
+        FROM usage WHERE substr(timestamp, 1, 7) = ?`).get(month) as Omit<Overview, 'month' | 'positive' | 'negative' | 'pendingCreditRequests'>;
+    const feedback = db.prepare(`
+        SELECT COALESCE(SUM(rating = 'positive'), 0) AS positive, COALESCE(SUM(rating = 'negative'), 0) AS negative
+        FROM feedback WHERE substr(timestamp, 1, 7) = ?`).get(month) as { positive: number; negative: number };
+    const pending = db.prepare(`SELECT COUNT(*) AS n FROM credit_requests WHERE status = 'pending'`).get() as { n: number };
+    return { month, ...usage, ...feedback, pendingCreditRequests: pending.n };
+}
+
+export function getDailyUsage({ db }: DashboardDb, days = 30): DailyUsage[] {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    return db.prepare(`
+        SELECT substr(timestamp, 1, 10) AS day, COUNT(*) AS requests, SUM(credit_multiplier) AS credits
+        FROM usage WHERE timestamp >= ? GROUP BY day ORDER BY day`).all(since) as DailyUsage[];
+}
+
+/**
+ * Requests and credits per model or per task type for a month
+ */
+export function getDistribution({ db }: DashboardDb, month: string, by: 'model' | 'task_type'): Distribution[] {
+    return db.prepare(`
+        SELECT ${by} AS key, COUNT(*) AS requests, SUM(credit_multiplier) AS credits
+        FROM usage WHERE substr(timestamp, 1, 7) = ? GROUP BY ${by} ORDER BY requests DESC`).all(month) as Distribution[];
+}
+
+export function getUserSummaries({ db }: DashboardDb, month: string): UserSummary[] {
+    return db.prepare(`
+        SELECT u.user_id AS userId, u.team_id AS teamId, u.department_id AS departmentId,
+            u.extension_version AS extensionVersion, u.policy_version AS policyVersion, u.last_seen AS lastSeen,
+            COALESCE(s.requests, 0) AS requests, COALESCE(s.credits, 0) AS credits,
+            COALESCE(f.positive, 0) AS positive, COALESCE(f.negative, 0) AS negative
+        FROM users u
+        LEFT JOIN (SELECT user_id, COUNT(*) AS requests, SUM(credit_multiplier) AS credits
+                   FROM usage WHERE substr(timestamp, 1, 7) = ? GROUP BY user_id) s ON s.user_id = u.user_id
+        LEFT JOIN (SELECT user_id, SUM(rating = 'positive') AS positive, SUM(rating = 'negative') AS negative
+                   FROM feedback WHERE substr(timestamp, 1, 7) = ? GROUP BY user_id) f ON f.user_id = u.user_id
+        ORDER BY credits DESC, u.last_seen DESC`).all(month, month) as UserSummary[];
+}
+
+export function getRecentFeedback({ db }: DashboardDb, limit = 200): FeedbackRow[] {
+    return db.prepare(`
+        SELECT user_id AS userId, request_id AS requestId, timestamp, selected_model AS selectedModel,
+            task_type AS taskType, rating, overridden_to AS overriddenTo
+        FROM feedback ORDER BY timestamp DESC LIMIT ?`).all(limit) as FeedbackRow[];
+}
+
+/**
+ * Which models developers switch away from, and to what
+ */
+export function getOverrideSummary({ db }: DashboardDb): OverrideSummary[] {
+    return db.prepare(`
+        SELECT selected_model AS fromModel, COALESCE(overridden_to, '?') AS toModel, COUNT(*) AS count
+        FROM feedback WHERE rating = 'override' GROUP BY fromModel, toModel ORDER BY count DESC LIMIT 50`).all() as OverrideSummary[];
+}
@@ -0,0 +1,279 @@
+/**
+ * SimpLLM Dashboard Server
+ * Endpoint the extension reports to (events, credit decisions, policy) plus the admin pages
+ */
+import * as http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { openDatabase, DashboardDb, EventBatch, MAX_CREDIT_AMOUNT } from './db.js';
+import { createAuthenticator, AuthError, AuthOptions } from './auth.js';
+import { loadSigningKey, signPolicy, validatePolicyConfig, PolicySigningKey, CREDIT_TIERS } from './policy.js';
+import { getOverview, getDailyUsage, getDistribution, getUserSummaries, getRecentFeedback, getOverrideSummary, monthKey } from './reports.js';
+import {
+    renderDashboard,
+    renderUsers,
+    renderFeedback,
+    renderSettings,
+    renderCreditRequests,
+    policyToForm,
+    feedbackCsv,
+    SettingsForm
+} from './pages.js';
+
+export interface DashboardOptions {
+    dbPath: string;
+    auth: AuthOptions;
+    policyKeyFile?: string;
+    adminPassword?: string;    // HTTP Basic password for the pages; unset = open (local use only)
+}
+
+export interface Dashboard {
+    server: http.Server;
+    store: DashboardDb;
+    signingKey: PolicySigningKey;
+    close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_EVENTS_PER_BATCH = 500;
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, 'request body too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function sendHtml(res: http.ServerResponse, html: string, status = 200) {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(html);
+}
+
+function redirect(res: http.ServerResponse, location: string) {
+    res.writeHead(303, { Location: location });
+    res.end();
+}
+
+export function createDashboard(options: DashboardOptions): Dashboard {
+    const store = openDatabase(options.dbPath);
+    const signingKey = loadSigningKey(options.policyKeyFile);
+    const auth = createAuthenticator(options.auth, store);
+
+    // ============================================
+    // API (called by the extension)
+    // ============================================
+
+    async function handleApi(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+        const body = await readBody(req);
+        if (req.method === 'POST' && url.pathname === '/api/clients') {
+            return sendJson(res, 201, await auth.register(req, body));
+        }
+        const client = await auth.authenticate(req, body);
+
+        if (req.method === 'POST' && url.pathname === '/api/events') {
+            let batch: EventBatch;
+            try {
+                batch = JSON.parse(body);
+            } catch {
+                throw new HttpError(400, 'body must be JSON');
+            }
+            if (!Array.isArray(batch?.events) || batch.events.length > MAX_EVENTS_PER_BATCH) {
+                throw new HttpError(400, `"events" must be an array of at most ${MAX_EVENTS_PER_BATCH} events`);
+            }
+            const accepted = store.recordEvents({
+                ...client,
+                teamId: typeof batch.teamId === 'string' ? batch.teamId : '',
+                departmentId: typeof batch.departmentId === 'string' ? batch.departmentId : ''
+            }, batch);
+            return sendJson(res, 200, { accepted });
+        }
+
+        if (req.method === 'GET' && url.pathname === '/api/credit-requests') {
+            const ids = (url.searchParams.get('ids') ?? '').split(',').filter(Boolean).slice(0, 100);
+            const requests = store.getCreditRequests(client.userId, ids).map(r => ({
+                id: r.id,
+                status: r.status,
+                approvedAmount: r.approvedAmount ?? undefined,
+                comment: r.comment ?? undefined,
+                decidedAt: r.decidedAt ?? undefined
+            }));
+            return sendJson(res, 200, { requests });
+        }
+
+        if (req.method === 'GET' && url.pathname === '/api/policy') {
+            const policy = store.getLatestPolicy();
+            if (!policy) throw new HttpError(404, 'no policy published');
+            return sendJson(res, 200, signPolicy(policy, signingKey));
+        }
+
+        throw new HttpError(404, 'not found');
+    }
+
+    // ============================================
+    // ADMIN PAGES
+    // ============================================
+
+    function checkAdmin(req: http.IncomingMessage) {
+        // Forms only post back to this server. Checked even without a password, or any
+        // site the admin visits could publish a policy; "null" and malformed origins count as foreign.
+        const origin = req.headers.origin;
+        if (req.method === 'POST' && origin !== undefined) {
+            let host: string | undefined;
+            try {
+                host = new URL(origin).host;
+            } catch {
+                host = undefined;
+            }
+            if (!host || host !== req.headers.host) throw new HttpError(403, 'cross-origin form post');
+        }
+
+        if (!options.adminPassword) return;
+        const [scheme, encoded] = (req.headers.authorization ?? '').split(' ');
+        const password = scheme === 'Basic' && encoded ? Buffer.from(encoded, 'base64').toString('utf8').split(':').slice(1).join(':') : '';
+        const expected = Buffer.from(options.adminPassword);
+        const given = Buffer.from(password);
+        if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+            throw new HttpError(401, 'admin password required');
+        }
+    }
+
+    function settingsFromForm(fields: URLSearchParams): { form: SettingsForm; config?: Record<string, unknown>; locked: boolean; errors: string[] } {
+        const form: SettingsForm = {
+            classifierModel: fields.get('classifierModel')?.trim() ?? '',
+            monthlyBudget: fields.get('monthlyBudget')?.trim() ?? '',
+            maxCreditTier: fields.get('maxCreditTier') ?? '',
+            blockedModels: fields.get('blockedModels') ?? '',
+            taskRouting: fields.get('taskRouting') ?? '',
+            departmentRules: fields.get('departmentRules') ?? '',
+            teamRules: fields.get('teamRules') ?? '',
+            budgetPolicy: fields.get('budgetPolicy') ?? '',
+            locked: fields.get('locked') === '1'
+        };
+        const errors: string[] = [];
+
+        // Only fields the admin filled in are published: the extension applies the policy
+        // over local settings key by key, so an empty value would still override them
+        const config: Record<string, unknown> = {};
+        if (form.classifierModel) config.classifierModel = form.classifierModel;
+        if (form.monthlyBudget) config.monthlyBudget = Number(form.monthlyBudget);
+        if (form.maxCreditTier) {
+            config.maxCreditTier = form.maxCreditTier;
+            if (!CREDIT_TIERS.includes(form.maxCreditTier)) errors.push(`maxCreditTier must be one of ${CREDIT_TIERS.join(', ')}`);
+        }
+        const blockedModels = form.blockedModels.split(',').map(m => m.trim()).filter(Boolean);
+        if (blockedModels.length > 0) config.blockedModels = blockedModels;
+        for (const name of ['taskRouting', 'departmentRules', 'teamRules', 'budgetPolicy'] as const) {
+            if (!form[name].trim()) continue;
+            try {
+                const value = JSON.parse(form[name]);
+                const empty = typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length === 0;
+                if (!empty) config[name] = value;
+            } catch (error) {
+                errors.push(`${name}: ${(error as Error).message}`);
+            }
+        }
+        if (errors.length === 0) errors.push(...validatePolicyConfig(config));
+        return errors.length > 0 ? { form, locked: form.locked, errors } : { form, config, locked: form.locked, errors };
+    }
+
+    async function handlePage(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+        checkAdmin(req);
+        const month = monthKey(new Date());
+
+        if (req.method === 'GET') {
+            switch (url.pathname) {
+                case '/':
+                    return sendHtml(res, renderDashboard(
+                        getOverview(store, month), getDailyUsage(store),
+                        getDistribution(store, month, 'model'), getDistribution(store, month, 'task_type')
+                    ));
+                case '/users':
+                    return sendHtml(res, renderUsers(month, getUserSummaries(store, month)));
+                case '/feedback':
+                    return sendHtml(res, renderFeedback(getRecentFeedback(store), getOverrideSummary(store)));
+                case '/feedback.csv':
+                    res.writeHead(200, {
+                        'Content-Type': 'text/csv; charset=utf-8',
+                        'Content-Disposition': 'attachment; filename="simpllm-feedback.csv"'
+                    });
+                    return res.end(feedbackCsv(getRecentFeedback(store, 100000)));
+                case '/settings': {
+                    const policy = store.getLatestPolicy();
+                    return sendHtml(res, renderSettings(policyToForm(policy), policy, signingKey.publicKeyPem, [], url.searchParams.has('saved')));
+                }
+                case '/credit-requests':
+                    return sendHtml(res, renderCreditRequests(store.listCreditRequests()));
+            }
+        }
+
+        if (req.method === 'POST' && url.pathname === '/settings') {
+            const { form, config, locked, errors } = settingsFromForm(new URLSearchParams(await readBody(req)));
+            if (!config) {
+                return sendHtml(res, renderSettings(form, store.getLatestPolicy(), signingKey.publicKeyPem, errors), 400);
+            }
+            store.savePolicy(config, locked);
+            return redirect(res, '/settings?saved');
+        }
+
+        if (req.method === 'POST' && url.pathname === '/credit-requests/decide') {
+            const fields = new URLSearchParams(await readBody(req));
+            const decision = fields.get('decision');
+            const approvedAmount = Number(fields.get('approvedAmount'));
+            if ((decision !== 'approved' && decision !== 'rejected') || (decision === 'approved' && !(approvedAmount >= 0 && approvedAmount <= MAX_CREDIT_AMOUNT))) {
+                return sendHtml(res, renderCreditRequests(store.listCreditRequests(), [`Choose approve or reject, with an amount from 0 to ${MAX_CREDIT_AMOUNT}`]), 400);
+            }
+            store.decideCreditRequest(fields.get('userId') ?? '', fields.get('id') ?? '', decision, approvedAmount, fields.get('comment')?.trim() ?? '');
+            return redirect(res, '/credit-requests');
+        }
+
+        throw new HttpError(404, 'not found');
+    }
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        try {
+            if (url.pathname === '/healthz') return sendJson(res, 200, { ok: true });
+            if (url.pathname.startsWith('/api/')) return await handleApi(req, res, url);
+            return await handlePage(req, res, url);
+        } catch (error) {
+            const status = error instanceof HttpError || error instanceof AuthError ? error.status : 500;
+            if (status === 500) console.error('simpllm-dashboard:', error);
+            if (res.headersSent) return res.end();
+            if (status === 401 && !url.pathname.startsWith('/api/')) {
+                res.setHeader('WWW-Authenticate', 'Basic realm="SimpLLM Admin"');
+            }
+            sendJson(res, status, { error: status === 500 ? 'internal error' : (error as Error).message });
+        }
+    });
+
+    return {
+        server,
+        store,
+        signingKey,
+        close: () => new Promise<void>(resolve => server.close(() => {
+            store.db.close();
+            resolve();
+        }))
+    };
+}
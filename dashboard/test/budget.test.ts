@@ -0,0 +1,60 @@
+/**
+ * Budget tests: the extension's tier caps (compiled from extension/src) for the resolved policy
+ */
+import { describe, it, before, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as os from 'os';
+import * as path from 'path';
+import { installVscodeShim, createContext, settings } from './vscodeShim.js';
+
+installVscodeShim();
+
+const extensionDist = path.resolve(__dirname, '../../../extension/dist');
+type Context = ReturnType<typeof createContext>;
+const usage = require(path.join(extensionDist, 'usage.js')) as {
+    initUsage(context: Context): void;
+    recordUsage(entry: Record<string, unknown>): Promise<void>;
+};
+const policy = require(path.join(extensionDist, 'policy.js')) as {
+    loadAdminConfig(): unknown;
+};
+const budget = require(path.join(extensionDist, 'budget.js')) as {
+    getBudgetStatus(): { used: number; budget: number; percent: number; tierCap: string | null };
+};
+
+describe('budget tier caps', () => {
+    before(() => usage.initUsage(createContext(path.join(os.tmpdir(), 'simpllm-budget-test'))));
+
+    beforeEach(() => {
+        settings.clear();
+        settings.set('teamId', 'interns');
+    });
+
+    it('leaves models uncapped while the budget is unused', () => {
+        policy.loadAdminConfig();
+        assert.equal(budget.getBudgetStatus().tierCap, null);
+    });
+
+    it('treats a zero team budget as exhausted, not unlimited', () => {
+        settings.set('teamRules', { interns: { monthlyBudget: 0 } });
+        policy.loadAdminConfig();
+        const status = budget.getBudgetStatus();
+        assert.equal(status.budget, 0);
+        assert.equal(status.percent, 100);
+        assert.equal(status.tierCap, 'free');
+    });
+
+    it('applies the strictest threshold for a zero budget, even one set above 100%', () => {
+        settings.set('monthlyBudget', 0);
+        settings.set('budgetPolicy', [{ percent: 50, maxTier: 'standard' }, { percent: 150, maxTier: 'cheap' }]);
+        policy.loadAdminConfig();
+        assert.equal(budget.getBudgetStatus().tierCap, 'cheap');
+    });
+
+    it('caps the tier once usage crosses a threshold', async () => {
+        settings.set('monthlyBudget', 10);
+        policy.loadAdminConfig();
+        await usage.recordUsage({ requestId: 'req-1', model: 'claude-opus-4.5', taskType: 'complex', creditMultiplier: 8, inputTokens: 1, outputTokens: 1 });
+        assert.equal(budget.getBudgetStatus().tierCap, 'standard');
+    });
+});
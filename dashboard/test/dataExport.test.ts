@@ -0,0 +1,54 @@
+/**
+ * Data export tests: validation of re-imported JSONL lines (compiled from extension/src)
+ */
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { installVscodeShim } from './vscodeShim.js';
+
+installVscodeShim();
+
+const extensionDist = path.resolve(__dirname, '../../../extension/dist');
+const dataExport = require(path.join(extensionDist, 'dataExport.js')) as {
+    parseJsonl(text: string): { feedback: Array<Record<string, unknown>>; usage: Array<Record<string, unknown>>; invalidLines: number[] };
+};
+
+const usageLine = (fields: Record<string, unknown> = {}) => JSON.stringify({
+    kind: 'usage', timestamp: '2026-03-02T10:00:00.000Z', requestId: 'req-1', model: 'gpt-4o', taskType: 'simple',
+    creditMultiplier: 0, inputTokens: 10, outputTokens: 20, ...fields
+});
+const feedbackLine = (fields: Record<string, unknown> = {}) => JSON.stringify({
+    kind: 'feedback', timestamp: '2026-03-02T10:00:00.000Z', requestId: 'req-1', selectedModel: 'gpt-4o', taskType: 'simple',
+    rating: 'positive', ...fields
+});
+
+describe('JSONL import', () => {
+    it('accepts well-formed usage and feedback lines', () => {
+        const result = dataExport.parseJsonl([usageLine({ responseTime: 1200 }), feedbackLine({ promptLength: 42 })].join('\n'));
+        assert.deepEqual(result.invalidLines, []);
+        assert.equal(result.usage[0].responseTime, 1200);
+        assert.equal(result.feedback[0].promptLength, 42);
+    });
+
+    it('rejects numeric fields that are not finite, non-negative numbers', () => {
+        const lines = [
+            usageLine({ creditMultiplier: 1e999 }),     // Serialized as null
+            usageLine({ creditMultiplier: -100 }),
+            usageLine({ inputTokens: '10' }),
+            usageLine({ outputTokens: null }),
+            usageLine({ responseTime: 'fast' }),
+            feedbackLine({ promptLength: -1 }),
+            feedbackLine({ responseTime: '1e308' }),
+            feedbackLine({ inputTokens: {} }),
+            feedbackLine({ outputTokens: [] })
+        ];
+        const result = dataExport.parseJsonl(lines.join('\n'));
+        assert.deepEqual(result.invalidLines, [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    it('drops fields the import does not know', () => {
+        const [entry] = dataExport.parseJsonl(usageLine({ userId: 'someone-else' })).usage;
+        assert.equal(entry.userId, undefined);
+        assert.equal(entry.model, 'gpt-4o');
+    });
+});
@@ -0,0 +1,61 @@
+/**
+ * Feedback store tests: two windows sharing globalState and segments (compiled from extension/src)
+ */
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { installVscodeShim, createContext } from './vscodeShim.js';
+
+installVscodeShim();
+
+const extensionDist = path.resolve(__dirname, '../../../extension/dist');
+type Context = ReturnType<typeof createContext>;
+interface FeedbackStore {
+    initFeedbackStore(context: Context): void;
+    appendFeedback(entry: Record<string, unknown>): Promise<void>;
+    readFeedback(): Promise<unknown[]>;
+    getStoreInfo(): { entries: number };
+    getRecentFeedback(): unknown[];
+}
+
+// Each window has its own copy of the module state
+function openWindow(context: Context): FeedbackStore {
+    const modulePath = path.join(extensionDist, 'feedbackStore.js');
+    delete require.cache[require.resolve(modulePath)];
+    const store = require(modulePath) as FeedbackStore;
+    store.initFeedbackStore(context);
+    return store;
+}
+
+const vote = (requestId: string) => ({
+    timestamp: new Date().toISOString(), requestId, selectedModel: 'gpt-4o', taskType: 'simple', rating: 'positive'
+});
+
+describe('feedback store across windows', () => {
+    let storageDir: string;
+
+    before(() => {
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simpllm-feedback-test-'));
+    });
+
+    after(() => fs.rmSync(storageDir, { recursive: true, force: true }));
+
+    it('keeps the counts of votes cast in other windows', async () => {
+        const context = createContext(storageDir);
+        const first = openWindow(context);
+        const second = openWindow(context);
+
+        await first.appendFeedback(vote('req-1'));
+        await second.appendFeedback(vote('req-2'));
+        await first.appendFeedback(vote('req-3'));
+
+        assert.equal(first.getStoreInfo().entries, 3);
+        assert.equal(first.getRecentFeedback().length, 3);
+        assert.equal((await first.readFeedback()).length, 3);
+
+        // A window opened later starts from the persisted index
+        assert.equal(openWindow(context).getStoreInfo().entries, 3);
+    });
+});
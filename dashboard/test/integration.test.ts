@@ -0,0 +1,255 @@
+/**
+ * Integration tests: the extension's own endpoint client (compiled from extension/src)
+ * talking to a dashboard server on a random port
+ */
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { verify } from 'crypto';
+import { installVscodeShim, createContext, settings, inputBoxAnswers, messages } from './vscodeShim.js';
+import { createDashboard, Dashboard } from '../src/server.js';
+
+installVscodeShim();
+
+// Extension modules, loaded from the extension's build output
+const extensionDist = path.resolve(__dirname, '../../../extension/dist');
+type Context = ReturnType<typeof createContext>;
+const outbox = require(path.join(extensionDist, 'outbox.js')) as {
+    initOutbox(context: Context): void;
+    flushOutbox(): Promise<void>;
+    getOutboxStats(): { pending: number; retrying: number };
+};
+const endpoint = require(path.join(extensionDist, 'endpoint.js')) as {
+    initEndpoint(context: Context): void;
+    getUserId(): string;
+    signIn(): Promise<boolean>;
+    callEndpoint(url: string, request?: { body?: unknown }): Promise<Response>;
+};
+const usage = require(path.join(extensionDist, 'usage.js')) as {
+    initUsage(context: Context): void;
+    recordUsage(entry: Record<string, unknown>): Promise<void>;
+};
+const feedback = require(path.join(extensionDist, 'feedback.js')) as {
+    initFeedback(context: Context): void;
+    recordFeedback(requestId: string, model: string, taskType: string, rating: 'positive' | 'negative'): Promise<void>;
+};
+const credits = require(path.join(extensionDist, 'credits.js')) as {
+    initCredits(context: Context): void;
+    requestExtraCredits(): Promise<void>;
+    pollCreditDecisions(): Promise<boolean>;
+    getCreditRequests(): Array<{ id: string; status: string }>;
+    getApprovedCredits(): number;
+};
+const policy = require(path.join(extensionDist, 'policy.js')) as {
+    loadAdminConfig(): unknown;
+};
+const centralPolicy = require(path.join(extensionDist, 'centralPolicy.js')) as {
+    initCentralPolicy(context: Context): void;
+    refreshCentralPolicy(): Promise<{ policy: unknown; error?: string }>;
+};
+
+async function startDashboard(auth: Parameters<typeof createDashboard>[0]['auth']): Promise<{ dashboard: Dashboard; baseUrl: string }> {
+    const dashboard = createDashboard({ dbPath: ':memory:', auth });
+    await new Promise<void>(resolve => dashboard.server.listen(0, '127.0.0.1', resolve));
+    const { port } = dashboard.server.address() as AddressInfo;
+    return { dashboard, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+describe('extension client against the dashboard server', () => {
+    let storageDir: string;
+    let context: Context;
+    let dashboard: Dashboard;
+    let baseUrl: string;
+
+    before(async () => {
+        ({ dashboard, baseUrl } = await startDashboard({ mode: 'none', apiTokens: [] }));
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simpllm-test-'));
+        context = createContext(storageDir);
+        settings.set('feedbackEndpoint', `${baseUrl}/api/events`);
+        settings.set('teamId', 'payments');
+        settings.set('departmentId', 'engineering');
+
+        endpoint.initEndpoint(context);
+        outbox.initOutbox(context);
+        usage.initUsage(context);
+        feedback.initFeedback(context);
+        credits.initCredits(context);
+        centralPolicy.initCentralPolicy(context);
+        policy.loadAdminConfig();
+    });
+
+    after(async () => {
+        context.subscriptions.forEach(s => s.dispose());
+        await dashboard.close();
+        fs.rmSync(storageDir, { recursive: true, force: true });
+        settings.clear();
+    });
+
+    it('delivers usage and feedback once, with the latest vote winning', async () => {
+        await usage.recordUsage({ requestId: 'req-1', model: 'claude-sonnet-4.5', taskType: 'test', creditMultiplier: 1, inputTokens: 120, outputTokens: 800 });
+        await feedback.recordFeedback('req-1', 'claude-sonnet-4.5', 'test', 'positive');
+        await feedback.recordFeedback('req-1', 'claude-sonnet-4.5', 'test', 'negative');
+        await outbox.flushOutbox();
+        assert.equal(outbox.getOutboxStats().pending, 0);
+
+        // The same request reported again (e.g. a retried batch) is not counted twice
+        await usage.recordUsage({ requestId: 'req-1', model: 'claude-sonnet-4.5', taskType: 'test', creditMultiplier: 1, inputTokens: 120, outputTokens: 800 });
+        await outbox.flushOutbox();
+
+        const { db } = dashboard.store;
+        assert.deepEqual(db.prepare('SELECT user_id, model, credit_multiplier, team_id FROM usage').all(), [
+            { user_id: endpoint.getUserId(), model: 'claude-sonnet-4.5', credit_multiplier: 1, team_id: 'payments' }
+        ]);
+        assert.deepEqual(db.prepare('SELECT rating FROM feedback').all(), [{ rating: 'negative' }]);
+        const user = db.prepare('SELECT extension_version, department_id FROM users').get();
+        assert.deepEqual(user, { extension_version: '1.0.0-test', department_id: 'engineering' });
+    });
+
+    it('keeps events queued while the server is down', async () => {
+        settings.set('feedbackEndpoint', 'http://127.0.0.1:9/api/events');
+        await usage.recordUsage({ requestId: 'req-offline', model: 'gpt-4o', taskType: 'simple', creditMultiplier: 0, inputTokens: 10, outputTokens: 10 });
+        await outbox.flushOutbox();
+        assert.equal(outbox.getOutboxStats().pending, 1);
+        assert.equal(outbox.getOutboxStats().retrying, 1);
+        settings.set('feedbackEndpoint', `${baseUrl}/api/events`);
+    });
+
+    it('round-trips a credit request and applies the approved amount', async () => {
+        inputBoxAnswers.push('40', 'Release crunch');
+        await credits.requestExtraCredits();
+        const [request] = credits.getCreditRequests();
+        assert.equal(request.status, 'pending');
+
+        const row = dashboard.store.listCreditRequests().find(r => r.id === request.id);
+        assert.equal(row?.amount, 40);
+        assert.equal(row?.reason, 'Release crunch');
+
+        dashboard.store.decideCreditRequest(endpoint.getUserId(), request.id, 'approved', 25, 'Half now, rest next week');
+        assert.equal(await credits.pollCreditDecisions(), true);
+        assert.equal(credits.getApprovedCredits(), 25);
+        assert.ok(messages.some(m => m.includes('+25 credits') && m.includes('Half now, rest next week')));
+    });
+
+    it('refuses credit amounts that are not finite or above the cap', async () => {
+        const before = credits.getCreditRequests().length;
+        for (const amount of ['Infinity', '1e308', '-5', 'abc']) {
+            inputBoxAnswers.push(amount);
+            await credits.requestExtraCredits();
+        }
+        assert.equal(credits.getCreditRequests().length, before);
+        assert.ok(messages.some(m => m.includes('at most 10000')));
+
+        // The server holds the same line for clients that skip the form
+        const events = [1e308, 10001, 0, '40'].map((amount, i) => ({
+            type: 'credit_request', id: `evt-${i}`, requestId: `credit-${i}`, amount, reason: 'Too much'
+        }));
+        const response = await endpoint.callEndpoint(`${baseUrl}/api/events`, { body: { events } });
+        assert.deepEqual(await response.json(), { accepted: 0 });
+        assert.ok(!dashboard.store.listCreditRequests().some(r => r.id.startsWith('credit-')));
+    });
+
+    it('serves policies signed with the server key', async () => {
+        dashboard.store.savePolicy({ monthlyBudget: 200, maxCreditTier: 'standard' }, true);
+        const response = await endpoint.callEndpoint(`${baseUrl}/api/policy`);
+        const document = await response.json() as { payload: string; signature: string };
+
+        const payload = Buffer.from(document.payload, 'base64');
+        assert.ok(verify(null, payload, dashboard.signingKey.publicKeyPem, Buffer.from(document.signature, 'base64')));
+        assert.deepEqual(JSON.parse(payload.toString('utf8')).config, { monthlyBudget: 200, maxCreditTier: 'standard' });
+
+        // Until this server's key is bundled, the extension refuses the policy
+        settings.set('policyUrl', `${baseUrl}/api/policy`);
+        const status = await centralPolicy.refreshCentralPolicy();
+        assert.equal(status.policy, null);
+        assert.equal(status.error, 'policy signature verification failed');
+    });
+});
+
+describe('token auth and request signing', () => {
+    let storageDir: string;
+    let dashboard: Dashboard;
+    let baseUrl: string;
+
+    before(async () => {
+        ({ dashboard, baseUrl } = await startDashboard({ mode: 'token', apiTokens: ['s3cret-token'] }));
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simpllm-test-'));
+        endpoint.initEndpoint(createContext(storageDir));
+        settings.set('authProvider', 'token');
+    });
+
+    after(async () => {
+        await dashboard.close();
+        fs.rmSync(storageDir, { recursive: true, force: true });
+        settings.clear();
+    });
+
+    it('rejects calls without a token', async () => {
+        const response = await fetch(`${baseUrl}/api/credit-requests?ids=x`, { headers: { 'X-SimpLLM-User': 'abcdef0123456789' } });
+        assert.equal(response.status, 401);
+    });
+
+    it('accepts signed calls after sign-in and rejects replays', async () => {
+        inputBoxAnswers.push('s3cret-token');
+        assert.equal(await endpoint.signIn(), true);
+
+        const realFetch = globalThis.fetch;
+        let sent: RequestInit | undefined;
+        globalThis.fetch = (input, init) => { sent = init; return realFetch(input, init); };
+        try {
+            const response = await endpoint.callEndpoint(`${baseUrl}/api/events`, { body: { events: [] } });
+            assert.deepEqual(await response.json(), { accepted: 0 });
+        } finally {
+            globalThis.fetch = realFetch;
+        }
+
+        const replay = await fetch(`${baseUrl}/api/events`, { method: 'POST', headers: sent!.headers, body: sent!.body });
+        assert.equal(replay.status, 401);
+        assert.deepEqual(await replay.json(), { error: 'replayed request' });
+
+        const headers = { ...(sent!.headers as Record<string, string>), 'X-SimpLLM-Nonce': 'another-nonce' };
+        const tampered = await fetch(`${baseUrl}/api/events`, { method: 'POST', headers, body: JSON.stringify({ events: [{}] }) });
+        assert.equal(tampered.status, 401);
+        assert.deepEqual(await tampered.json(), { error: 'invalid request signature' });
+    });
+
+    it('never sends the token after registration and takes the user id from the server', async () => {
+        const realFetch = globalThis.fetch;
+        const sent: Array<Record<string, string>> = [];
+        globalThis.fetch = (input, init) => { sent.push(init!.headers as Record<string, string>); return realFetch(input, init); };
+        try {
+            await endpoint.callEndpoint(`${baseUrl}/api/events`, {
+                body: { events: [{ id: 'usage:req-2', type: 'usage', requestId: 'req-2', model: 'gpt-4o', taskType: 'simple' }] }
+            });
+        } finally {
+            globalThis.fetch = realFetch;
+        }
+
+        assert.ok(sent.every(headers => !('Authorization' in headers)));
+        const [row] = dashboard.store.db.prepare('SELECT user_id FROM usage').all() as Array<{ user_id: string }>;
+        assert.equal(row.user_id, sent[0]['X-SimpLLM-User']);
+        assert.notEqual(row.user_id, endpoint.getUserId());
+    });
+
+    it('refuses a signed call that claims another user id', async () => {
+        const realFetch = globalThis.fetch;
+        globalThis.fetch = (input, init) => realFetch(input, {
+            ...init,
+            headers: { ...(init!.headers as Record<string, string>), 'X-SimpLLM-User': 'abcdef0123456789' }
+        });
+        try {
+            await assert.rejects(endpoint.callEndpoint(`${baseUrl}/api/credit-requests?ids=x`), { status: 403 });
+        } finally {
+            globalThis.fetch = realFetch;
+        }
+    });
+
+    it('re-registers after the server forgets the client', async () => {
+        dashboard.store.db.prepare('DELETE FROM clients').run();
+        const response = await endpoint.callEndpoint(`${baseUrl}/api/events`, { body: { events: [] } });
+        assert.deepEqual(await response.json(), { accepted: 0 });
+        assert.equal((dashboard.store.db.prepare('SELECT COUNT(*) AS n FROM clients').get() as { n: number }).n, 1);
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * Local classifier tests: keyword matching of the extension's offline classifier (compiled from extension/src)
+ */
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+
+const extensionDist = path.resolve(__dirname, '../../../extension/dist');
+const classifier = require(path.join(extensionDist, 'localClassifier.js')) as {
+    localClassify(prompt: string): { taskType: string };
+    scoreTaskTypes(prompt: string): Array<{ type: string; score: number }>;
+};
+
+const scoreOf = (prompt: string, type: string) => classifier.scoreTaskTypes(prompt).find(s => s.type === type)?.score;
+
+describe('local classifier keywords', () => {
+    it('matches keywords and their inflections', () => {
+        assert.equal(classifier.localClassify('fix the login bug').taskType, 'debug');
+        assert.equal(classifier.localClassify('still debugging why the worker crashes').taskType, 'debug');
+        assert.equal(classifier.localClassify('add tests for the parser').taskType, 'test');
+        assert.equal(classifier.localClassify('refactoring the billing module').taskType, 'refactor');
+        assert.equal(classifier.localClassify('review the authentication flow for vulnerabilities').taskType, 'security');
+    });
+
+    it('keeps Turkish suffixes matching through stems', () => {
+        assert.equal(classifier.localClassify('bu fonksiyon için testleri yaz').taskType, 'test');
+        assert.equal(classifier.localClassify('hatayı düzeltir misin').taskType, 'debug');
+    });
+
+    it('does not match keywords inside longer words', () => {
+        assert.equal(scoreOf('add a fixture for the prefix table', 'debug'), 0);
+        assert.equal(scoreOf('which parts of this specification are important', 'test'), 0);
+        assert.equal(scoreOf('list every author of the changelog', 'security'), 0);
+        assert.equal(scoreOf('is the big one faster', 'algorithm'), 0);
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Server tests: admin pages and the events API, called directly over HTTP
+ */
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { createDashboard, Dashboard } from '../src/server.js';
+
+describe('admin pages without a password', () => {
+    let dashboard: Dashboard;
+    let baseUrl: string;
+
+    before(async () => {
+        dashboard = createDashboard({ dbPath: ':memory:', auth: { mode: 'none', apiTokens: [] } });
+        await new Promise<void>(resolve => dashboard.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(dashboard.server.address() as AddressInfo).port}`;
+    });
+
+    after(() => dashboard.close());
+
+    const postSettings = (origin?: string) => fetch(`${baseUrl}/settings`, {
+        method: 'POST',
+        redirect: 'manual',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...(origin ? { Origin: origin } : {}) },
+        // What a browser submits when only the budget and tier are filled in
+        body: new URLSearchParams({
+            classifierModel: '', monthlyBudget: '100', maxCreditTier: 'free', blockedModels: '',
+            taskRouting: '{}', departmentRules: '', teamRules: ''
+        }).toString()
+    });
+
+    it('rejects cross-origin and opaque-origin form posts', async () => {
+        for (const origin of ['https://evil.example', 'null']) {
+            const response = await postSettings(origin);
+            assert.equal(response.status, 403);
+            assert.deepEqual(await response.json(), { error: 'cross-origin form post' });
+        }
+        assert.equal(dashboard.store.getLatestPolicy(), undefined);
+    });
+
+    it('publishes only the fields the admin filled in', async () => {
+        const response = await postSettings(baseUrl);
+        assert.equal(response.status, 303);
+        assert.deepEqual(dashboard.store.getLatestPolicy()?.config, { monthlyBudget: 100, maxCreditTier: 'free' });
+    });
+
+    it('publishes budget thresholds and rejects malformed ones', async () => {
+        const post = (budgetPolicy: string) => fetch(`${baseUrl}/settings`, {
+            method: 'POST',
+            redirect: 'manual',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', Origin: baseUrl },
+            body: new URLSearchParams({ budgetPolicy, locked: '1' }).toString()
+        });
+
+        assert.equal((await post('[{"percent": 50, "maxTier": "premium-plus"}]')).status, 400);
+        assert.equal((await post('[{"percent": 80, "maxTier": "cheap"}]')).status, 303);
+        const policy = dashboard.store.getLatestPolicy();
+        assert.equal(policy?.locked, true);
+        assert.deepEqual(policy?.config, { budgetPolicy: [{ percent: 80, maxTier: 'cheap' }] });
+    });
+});
+
+describe('events API', () => {
+    let dashboard: Dashboard;
+    let baseUrl: string;
+
+    before(async () => {
+        dashboard = createDashboard({ dbPath: ':memory:', auth: { mode: 'none', apiTokens: [] } });
+        await new Promise<void>(resolve => dashboard.server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(dashboard.server.address() as AddressInfo).port}`;
+    });
+
+    after(() => dashboard.close());
+
+    it('skips malformed events instead of failing the batch', async () => {
+        const events = [
+            null,
+            42,
+            ['usage'],
+            { type: 'feedback', requestId: 'req-no-id', rating: 'positive' },
+            { id: 7, type: 'usage', requestId: 'req-numeric-id' },
+            { id: 'feedback:req-ok:vote', type: 'feedback', requestId: 'req-ok', rating: 'positive', selectedModel: 'gpt-4o', taskType: 'simple' }
+        ];
+        const response = await fetch(`${baseUrl}/api/events`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-SimpLLM-User': 'abcdef0123456789' },
+            body: JSON.stringify({ events })
+        });
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { accepted: 1 });
+        assert.deepEqual(dashboard.store.db.prepare('SELECT request_id FROM feedback').all(), [{ request_id: 'req-ok' }]);
+    });
+});
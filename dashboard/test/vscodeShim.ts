@@ -0,0 +1,82 @@
+/**
+ * Just enough of the `vscode` API to run the extension's endpoint client modules under node
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import Module from 'module';
+
+export const settings = new Map<string, unknown>();
+export const inputBoxAnswers: string[] = [];
+export const messages: string[] = [];
+
+interface FakeUri {
+    fsPath: string;
+}
+
+const vscode = {
+    workspace: {
+        getConfiguration: () => ({
+            get: <T>(key: string, fallback: T): T => (settings.has(key) ? settings.get(key) : fallback) as T
+        }),
+        fs: {
+            readFile: (uri: FakeUri) => fs.promises.readFile(uri.fsPath),
+            writeFile: (uri: FakeUri, data: Uint8Array) => fs.promises.writeFile(uri.fsPath, data),
+            createDirectory: async (uri: FakeUri) => { await fs.promises.mkdir(uri.fsPath, { recursive: true }); }
+        }
+    },
+    Uri: {
+        file: (fsPath: string): FakeUri => ({ fsPath }),
+        joinPath: (base: FakeUri, ...parts: string[]): FakeUri => ({ fsPath: path.join(base.fsPath, ...parts) })
+    },
+    window: {
+        showInformationMessage: async (message: string) => { messages.push(message); return undefined; },
+        showWarningMessage: async (message: string) => { messages.push(message); return undefined; },
+        // An answer the box would not accept is recorded like a message and the box is dismissed
+        showInputBox: async (options?: { validateInput?(value: string): string | undefined }) => {
+            const answer = inputBoxAnswers.shift();
+            const error = answer === undefined ? undefined : options?.validateInput?.(answer);
+            if (error) {
+                messages.push(error);
+                return undefined;
+            }
+            return answer;
+        }
+    },
+    env: { machineId: 'integration-test-machine' },
+    authentication: { getSession: async () => undefined },
+    commands: { executeCommand: async () => undefined }
+};
+
+/**
+ * Serve the fake for every require('vscode')
+ */
+export function installVscodeShim() {
+    const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+    const originalLoad = loader._load;
+    loader._load = function (request: string, ...rest: unknown[]) {
+        return request === 'vscode' ? vscode : originalLoad.call(this, request, ...rest);
+    };
+}
+
+/**
+ * ExtensionContext backed by in-memory state and a temporary storage directory
+ */
+export function createContext(storageDir: string) {
+    const state = new Map<string, unknown>();
+    const secrets = new Map<string, string>();
+    return {
+        subscriptions: [] as Array<{ dispose(): void }>,
+        globalStorageUri: { fsPath: storageDir },
+        extension: { packageJSON: { version: '1.0.0-test' } },
+        globalState: {
+            get: <T>(key: string, fallback?: T) => (state.has(key) ? state.get(key) : fallback) as T,
+            update: async (key: string, value: unknown) => { if (value === undefined) state.delete(key); else state.set(key, value); },
+            keys: () => [...state.keys()]
+        },
+        secrets: {
+            get: async (key: string) => secrets.get(key),
+            store: async (key: string, value: string) => { secrets.set(key, value); },
+            delete: async (key: string) => { secrets.delete(key); }
+        }
+    };
+}
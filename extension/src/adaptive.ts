@@ -0,0 +1,128 @@
+/**
+ * SimpLLM Adaptive Routing
+ * Learns per-task model preferences from 👍/👎 and override feedback
+ */
+import * as vscode from 'vscode';
+import { ModelDefinition, TaskType, getBestModelForTask } from './models.js';
+import { getFeedbackStats, TaskModelFeedback } from './feedback.js';
+
+export type AdaptiveMode = 'learn' | 'frozen' | 'off';
+
+export interface ModelScore {
+    modelId: string;
+    samples: number;
+    satisfaction: number;   // smoothed share of positive signals (0-1)
+    overrideRate: number;   // share of requests the developer switched away from
+}
+
+// Minimum feedback signals before a model's score is trusted
+const MIN_SAMPLES = 5;
+// How much better an alternative must score before it replaces the routed model
+const PROMOTE_MARGIN = 0.15;
+// Below this score the routed model is demoted even without a proven alternative
+const DEMOTE_BELOW = 0.4;
+
+const FROZEN_KEY = 'simpllm.learnedRouting';
+
+let extensionContext: vscode.ExtensionContext;
+
+/**
+ * Initialize adaptive routing
+ */
+export function initAdaptive(context: vscode.ExtensionContext) {
+    extensionContext = context;
+}
+
+export function getAdaptiveMode(): AdaptiveMode {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    return config.get<AdaptiveMode>('adaptiveRouting', 'learn');
+}
+
+/**
+ * Keep the snapshot in step with the mode: taken whenever routing is frozen without one
+ * (including a setting that was already frozen at startup), dropped once unfrozen so the
+ * next freeze starts from current evidence
+ */
+export async function syncLearnedRoutingSnapshot() {
+    const snapshot = extensionContext.globalState.get(FROZEN_KEY);
+    if (getAdaptiveMode() === 'frozen') {
+        if (!snapshot) await extensionContext.globalState.update(FROZEN_KEY, getFeedbackStats().byTaskModel);
+    } else if (snapshot) {
+        await extensionContext.globalState.update(FROZEN_KEY, undefined);
+    }
+}
+
+/**
+ * Evidence used for routing: live feedback, or the snapshot taken when frozen
+ */
+function getEvidence(): Record<string, Record<string, TaskModelFeedback>> {
+    const frozen = getAdaptiveMode() === 'frozen'
+        ? extensionContext.globalState.get<Record<string, Record<string, TaskModelFeedback>>>(FROZEN_KEY)
+        : undefined;
+    return frozen ?? getFeedbackStats().byTaskModel;
+}
+
+function scoreModel(modelId: string, fb: TaskModelFeedback): ModelScore {
+    const good = fb.positive + fb.overridesTo;
+    const bad = fb.negative + fb.overrides;
+    const samples = good + bad;
+    return {
+        modelId,
+        samples,
+        // Laplace smoothing keeps a single vote from swinging the score to 0 or 1
+        satisfaction: (good + 1) / (samples + 2),
+        overrideRate: samples > 0 ? fb.overrides / samples : 0
+    };
+}
+
+/**
+ * Per-model scores for a task, best first
+ */
+export function getTaskScores(taskType: TaskType): ModelScore[] {
+    const byModel = getEvidence()[taskType] || {};
+    return Object.entries(byModel)
+        .map(([id, fb]) => scoreModel(id, fb))
+        .sort((a, b) => b.satisfaction - a.satisfaction);
+}
+
+function describe(model: ModelDefinition, score: ModelScore): string {
+    return `${model.name} ${(score.satisfaction * 100).toFixed(0)}% satisfied, ` +
+        `${(score.overrideRate * 100).toFixed(0)}% overridden (${score.samples} signals)`;
+}
+
+/**
+ * Promote or demote the routed model once enough feedback has accumulated.
+ * Only candidates (models the admin policy and budget allow) are considered.
+ */
+export function getLearnedModel(
+    taskType: TaskType,
+    routed: ModelDefinition,
+    candidates: ModelDefinition[]
+): { model: ModelDefinition; note: string } | undefined {
+    if (getAdaptiveMode() === 'off') return undefined;
+
+    const scores = getTaskScores(taskType).filter(s => s.samples >= MIN_SAMPLES);
+    const current = scores.find(s => s.modelId === routed.id);
+    const currentScore = current ? current.satisfaction : 0.5;
+
+    // Promote: a proven alternative clearly beats the routed model
+    for (const score of scores) {
+        if (score.modelId === routed.id) continue;
+        if (score.satisfaction < currentScore + PROMOTE_MARGIN) break;
+        const model = candidates.find(m => m.id === score.modelId);
+        if (model) {
+            return { model, note: `learned: ${describe(model, score)}` };
+        }
+    }
+
+    // Demote: the routed model keeps disappointing on this task
+    if (current && current.satisfaction < DEMOTE_BELOW) {
+        const provenBad = new Set(scores.filter(s => s.satisfaction < DEMOTE_BELOW).map(s => s.modelId));
+        const model = getBestModelForTask(taskType, candidates.filter(m => !provenBad.has(m.id)));
+        if (model) {
+            return { model, note: `learned: avoided ${describe(routed, current)}` };
+        }
+    }
+
+    return undefined;
+}
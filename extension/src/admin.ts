@@ -4,20 +4,29 @@
  */
 import * as vscode from 'vscode';
 import { MODELS, getModel, TaskType, DEFAULT_TASK_ROUTING } from './models.js';
-import { getFeedbackStats, getFeedbackLog, FeedbackEntry } from './feedback.js';
+import { getFeedbackStats, FeedbackEntry } from './feedback.js';
+import { getRecentFeedback } from './feedbackStore.js';
+import { UsageStats } from './usage.js';
+import { getTaskScores, getAdaptiveMode, AdaptiveMode } from './adaptive.js';
+import { getExperimentResults, ExperimentResult } from './experiments.js';
+import { getCatalogStatus, CatalogStatus } from './catalog.js';
+import { getUnknownCopilotModels, getAvailabilityCheckTime, UnknownCopilotModel } from './availability.js';
+import {
+  getAdminConfig,
+  getEffectivePolicy,
+  getRoutingChain,
+  validatePolicyRules,
+  EffectivePolicy,
+  POLICY_LAYER_LABELS
+} from './policy.js';
+import { getCentralPolicyStatus } from './centralPolicy.js';
 
 /**
  * Open admin panel
  */
 export function openAdminPanel(
   context: vscode.ExtensionContext,
-  sessionStats: {
-    requestCount: number;
-    tokenCount: { input: number; output: number };
-    creditsByModel: Record<string, number>;
-    taskTypes: Record<string, number>;
-    totalCreditsUsed: number;
-  }
+  usageStats: UsageStats
 ) {
   const panel = vscode.window.createWebviewPanel(
     'simpllmAdmin',
@@ -27,11 +36,15 @@ export function openAdminPanel(
   );
 
   const feedbackStats = getFeedbackStats();
-  const feedbackLog = getFeedbackLog();
+  const feedbackLog = getRecentFeedback(20);
   const config = vscode.workspace.getConfiguration('simpllm');
   const taskRouting = config.get<Record<string, string>>('taskRouting', {});
+  const monthlyBudget = config.get<number>('monthlyBudget', 300);
 
-  panel.webview.html = getAdminHTML(sessionStats, feedbackStats, feedbackLog, taskRouting);
+  panel.webview.html = getAdminHTML(
+    usageStats, feedbackStats, feedbackLog, taskRouting, monthlyBudget, getAdaptiveMode(), getExperimentResults(),
+    getCatalogStatus(), getUnknownCopilotModels(), getAvailabilityCheckTime(), getEffectivePolicy()
+  );
 
   // Handle messages from webview
   panel.webview.onDidReceiveMessage(async (message) => {
@@ -46,23 +59,62 @@ export function openAdminPanel(
         }
         vscode.window.showInformationMessage('SimpLLM: Settings saved');
         break;
+      case 'savePolicies': {
+        const errors = [
+          ...validatePolicyRules(message.departmentRules, 'departmentRules'),
+          ...validatePolicyRules(message.teamRules, 'teamRules')
+        ];
+        if (errors.length > 0) {
+          vscode.window.showErrorMessage(`SimpLLM: Policies not saved. ${errors.join('; ')}`);
+          break;
+        }
+        await config.update('departmentRules', message.departmentRules, vscode.ConfigurationTarget.Global);
+        await config.update('teamRules', message.teamRules, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage('SimpLLM: Department and team rules saved');
+        break;
+      }
+      case 'error':
+        vscode.window.showErrorMessage(`SimpLLM: ${message.message}`);
+        break;
     }
   }, undefined, context.subscriptions);
 }
 
+/**
+ * Escape text for HTML content and attribute values: catalog manifests, settings and
+ * imported feedback are not trusted, and the webview runs scripts
+ */
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 function getAdminHTML(
-  sessionStats: any,
+  usageStats: UsageStats,
   feedbackStats: any,
   feedbackLog: FeedbackEntry[],
-  taskRouting: Record<string, string>
+  taskRouting: Record<string, string>,
+  monthlyBudget: number,
+  adaptiveMode: AdaptiveMode,
+  experimentResults: ExperimentResult[],
+  catalogStatus: CatalogStatus,
+  unknownModels: UnknownCopilotModel[],
+  availabilityCheckedAt: Date | null,
+  policy: EffectivePolicy
 ): string {
-  const totalCredits = Object.values(sessionStats.creditsByModel as Record<string, number>).reduce((a: number, b: number) => a + b, 0);
+  const totalCredits = usageStats.totalCreditsUsed;
+  const effectiveBudget = policy.monthlyBudget.value;
+  const budgetPercent = effectiveBudget > 0 ? (totalCredits / effectiveBudget) * 100 : 0;
   const satisfactionRate = feedbackStats.total > 0
     ? ((feedbackStats.positive / (feedbackStats.positive + feedbackStats.negative || 1)) * 100).toFixed(0)
     : 'N/A';
 
   const modelOptions = MODELS.map(m =>
-    `<option value="${m.id}">${m.name} (${m.creditMultiplier}x)</option>`
+    `<option value="${escapeHtml(m.id)}">${escapeHtml(m.name)} (${m.creditMultiplier}x)</option>`
   ).join('');
 
   const taskTypes: TaskType[] = [
@@ -73,15 +125,20 @@ function getAdminHTML(
   const routingRows = taskTypes.map(t => {
     const current = taskRouting[t] || DEFAULT_TASK_ROUTING[t];
     const currentModel = getModel(current);
+    const top = getTaskScores(t)[0];
+    const learned = top
+      ? `${escapeHtml(getModel(top.modelId)?.name || top.modelId)} · ${(top.satisfaction * 100).toFixed(0)}% (${top.samples})`
+      : '-';
     return `
       <tr>
         <td>${t}</td>
-        <td>${currentModel?.name || current}</td>
+        <td>${escapeHtml(currentModel?.name || current)}</td>
+        <td>${learned}</td>
         <td>
           <select data-task="${t}" class="routing-select">
             <option value="">Default</option>
             ${MODELS.map(m =>
-      `<option value="${m.id}" ${current === m.id ? 'selected' : ''}>${m.name} (${m.creditMultiplier}x)</option>`
+      `<option value="${escapeHtml(m.id)}" ${current === m.id ? 'selected' : ''}>${escapeHtml(m.name)} (${m.creditMultiplier}x)</option>`
     ).join('')}
           </select>
         </td>
@@ -89,29 +146,104 @@ function getAdminHTML(
     `;
   }).join('');
 
+  const pct = (v: number | null) => v === null ? '-' : `${(v * 100).toFixed(0)}%`;
+  const experimentCards = experimentResults.map(r => {
+    const significance = r.pValue === null
+      ? 'Not enough feedback yet'
+      : r.pValue < 0.05
+        ? `✅ Significant difference (p=${r.pValue.toFixed(3)})`
+        : `⏳ No significant difference yet (p=${r.pValue.toFixed(3)})`;
+    const rows = r.arms.map(a => `
+        <tr>
+          <td>${escapeHtml(a.armId)}</td>
+          <td>${escapeHtml(getModel(a.modelId)?.name || a.modelId)}</td>
+          <td>${a.requests}</td>
+          <td>${pct(a.satisfaction)}</td>
+          <td>${pct(a.overrideRate)}</td>
+          <td>${(a.avgLatency / 1000).toFixed(1)}s</td>
+          <td>${a.credits.toFixed(1)}x</td>
+        </tr>
+      `).join('');
+    return `
+      <div class="section-title">${escapeHtml(r.experiment.id)} · ${escapeHtml(r.experiment.taskType)} ${r.active ? '' : '(inactive)'}</div>
+      <div class="card">
+        <table>
+          <tr><th>Arm</th><th>Model</th><th>Requests</th><th>Satisfaction</th><th>Overrides</th><th>Latency</th><th>Credits</th></tr>
+          ${rows}
+        </table>
+        <p style="color:#8b949e;margin-top:12px;font-size:13px">${significance}</p>
+      </div>
+    `;
+  }).join('');
+
   const recentFeedback = feedbackLog.slice(-20).reverse().map(f => {
     const icon = f.rating === 'positive' ? '👍' : f.rating === 'negative' ? '👎' : '🔄';
     const model = getModel(f.selectedModel);
     return `
       <tr>
         <td>${icon}</td>
-        <td>${model?.name || f.selectedModel}</td>
-        <td>${f.taskType}</td>
-        <td>${f.overriddenTo ? `→ ${getModel(f.overriddenTo)?.name || f.overriddenTo}` : '-'}</td>
+        <td>${escapeHtml(model?.name || f.selectedModel)}</td>
+        <td>${escapeHtml(f.taskType)}</td>
+        <td>${f.overriddenTo ? `→ ${escapeHtml(getModel(f.overriddenTo)?.name || f.overriddenTo)}` : '-'}</td>
         <td>${new Date(f.timestamp).toLocaleString()}</td>
       </tr>
     `;
   }).join('');
 
-  const modelUsageRows = Object.entries(sessionStats.creditsByModel as Record<string, number>)
-    .sort(([, a], [, b]) => (b as number) - (a as number))
+  const catalogRows = MODELS.map(m => `
+      <tr>
+        <td>${escapeHtml(m.name)}${m.isPreview ? ' <span style="color:#d29922">(Preview)</span>' : ''}</td>
+        <td><code>${escapeHtml(m.id)}</code></td>
+        <td>${m.creditMultiplier}x</td>
+        <td>${escapeHtml(m.creditTier)}</td>
+        <td>${m.capabilities.contextWindow}K</td>
+        <td>${escapeHtml(m.bestFor.join(', '))}</td>
+        <td>${m.available === undefined ? '?' : m.available ? '✅' : '❌'}</td>
+      </tr>
+    `).join('');
+  const unknownRows = unknownModels.map(m => `
+      <tr>
+        <td>${escapeHtml(m.name)}</td>
+        <td><code>${escapeHtml(m.id)}</code></td>
+        <td><code>${escapeHtml(m.family)}</code></td>
+        <td>${escapeHtml(m.version)}</td>
+        <td>${Math.round(m.maxInputTokens / 1000)}K</td>
+      </tr>
+    `).join('');
+  const catalogSources = catalogStatus.sources
+    .map(s => `${s.source} <code>${escapeHtml(s.location)}</code> v${escapeHtml(s.version)} (${s.entries})`)
+    .join(' → ');
+  const catalogErrors = catalogStatus.errors
+    .map(e => `<li>${escapeHtml(e)}</li>`)
+    .join('');
+
+  const adminConfig = getAdminConfig();
+  const central = getCentralPolicyStatus().policy;
+  const policyBanner = central
+    ? `<div class="card" style="margin-bottom:16px;border-color:#d29922">${central.locked ? '🔒 Locked' : 'Managed'} by central policy v${central.version} (issued ${new Date(central.issuedAt).toLocaleString()}). ${central.locked ? 'Local changes below have no effect.' : 'Values set by the policy override local changes below.'}</div>`
+    : '';
+  const escapeJson = (value: unknown) => escapeHtml(JSON.stringify(value ?? {}, null, 2));
+  const from = (layer: keyof typeof POLICY_LAYER_LABELS) => POLICY_LAYER_LABELS[layer];
+  const policyRoutingRows = taskTypes.map(t => {
+    const chain = getRoutingChain(t);
+    return `
+      <tr>
+        <td>${t}</td>
+        <td>${chain.map(e => `${escapeHtml(getModel(e.value)?.name || e.value)} <span style="color:#8b949e">(${from(e.layer).toLowerCase()})</span>`).join(' → ')}</td>
+      </tr>
+    `;
+  }).join('');
+
+  const modelUsageRows = Object.entries(usageStats.creditsByModel)
+    .sort(([, a], [, b]) => b - a)
     .map(([id, credits]) => {
       const model = getModel(id);
       const fb = feedbackStats.byModel[id];
       return `
         <tr>
-          <td>${model?.name || id}</td>
-          <td>${(credits as number).toFixed(1)}x</td>
+          <td>${escapeHtml(model?.name || id)}</td>
+          <td>${usageStats.requestsByModel[id] || 0}</td>
+          <td>${credits.toFixed(1)}x</td>
           <td>${fb ? fb.positive : 0}</td>
           <td>${fb ? fb.negative : 0}</td>
           <td>${fb ? fb.overrides : 0}</td>
@@ -178,6 +310,10 @@ function getAdminHTML(
   .btn:hover { background: #2ea043; }
   .section-title { font-size: 16px; font-weight: 600; margin: 24px 0 12px; }
   .empty { color: #8b949e; text-align: center; padding: 40px; }
+  textarea {
+    background: #0d1117; color: #c9d1d9; border: 1px solid #30363d; border-radius: 6px;
+    padding: 10px; width: 100%; min-height: 160px; font-family: monospace; font-size: 12px;
+  }
 </style>
 </head>
 <body>
@@ -191,6 +327,9 @@ function getAdminHTML(
     <div class="tab active" data-tab="dashboard">Dashboard</div>
     <div class="tab" data-tab="feedback">Feedback</div>
     <div class="tab" data-tab="routing">Routing Rules</div>
+    <div class="tab" data-tab="experiments">Experiments</div>
+    <div class="tab" data-tab="models">Models</div>
+    <div class="tab" data-tab="policies">Policies</div>
     <div class="tab" data-tab="settings">Settings</div>
   </div>
 
@@ -198,8 +337,8 @@ function getAdminHTML(
   <div class="content active" id="dashboard">
     <div class="grid">
       <div class="card">
-        <div class="label">Requests</div>
-        <div class="value blue">${sessionStats.requestCount}</div>
+        <div class="label">Requests (${usageStats.month})</div>
+        <div class="value blue">${usageStats.requestCount}</div>
       </div>
       <div class="card">
         <div class="label">Credits Used</div>
@@ -207,7 +346,7 @@ function getAdminHTML(
       </div>
       <div class="card">
         <div class="label">Budget</div>
-        <div class="value ${sessionStats.totalCreditsUsed > 270 ? 'red' : sessionStats.totalCreditsUsed > 210 ? 'orange' : 'green'}">${((sessionStats.totalCreditsUsed / 300) * 100).toFixed(0)}%</div>
+        <div class="value ${budgetPercent >= 90 ? 'red' : budgetPercent >= 70 ? 'orange' : 'green'}">${budgetPercent.toFixed(0)}%</div>
       </div>
       <div class="card">
         <div class="label">Satisfaction</div>
@@ -222,8 +361,8 @@ function getAdminHTML(
     <div class="section-title">Model Usage</div>
     <div class="card">
       <table>
-        <tr><th>Model</th><th>Credits</th><th>👍</th><th>👎</th><th>🔄</th></tr>
-        ${modelUsageRows || '<tr><td colspan="5" class="empty">No data yet</td></tr>'}
+        <tr><th>Model</th><th>Requests</th><th>Credits</th><th>👍</th><th>👎</th><th>🔄</th></tr>
+        ${modelUsageRows || '<tr><td colspan="6" class="empty">No data yet</td></tr>'}
       </table>
     </div>
   </div>
@@ -259,15 +398,82 @@ function getAdminHTML(
     <p style="color:#8b949e; margin-bottom:16px">Configure which model handles each task type. Changes apply to all users via managed settings.</p>
     <div class="card">
       <table>
-        <tr><th>Task Type</th><th>Current</th><th>Override</th></tr>
+        <tr><th>Task Type</th><th>Current</th><th>Top Rated</th><th>Override</th></tr>
         ${routingRows}
       </table>
       <button class="btn" id="saveRouting">Save Routing Rules</button>
     </div>
   </div>
 
+  <!-- Experiments -->
+  <div class="content" id="experiments">
+    <p style="color:#8b949e; margin-bottom:16px">A/B routing experiments from <code>simpllm.experiments</code>. Satisfaction of the first arm is compared against the best other arm.</p>
+    ${experimentCards || '<div class="card"><div class="empty">No experiments configured</div></div>'}
+  </div>
+
+  <!-- Models -->
+  <div class="content" id="models">
+    <p style="color:#8b949e; margin-bottom:16px">Catalog v${escapeHtml(catalogStatus.version)} · ${catalogStatus.modelCount} models · ${catalogSources}</p>
+    ${catalogErrors ? `<div class="card" style="margin-bottom:16px;border-color:#f85149"><div class="label">Ignored catalog overrides</div><ul style="margin:8px 0 0 18px;font-size:13px">${catalogErrors}</ul></div>` : ''}
+    <div class="card">
+      <table>
+        <tr><th>Model</th><th>ID</th><th>Credit</th><th>Tier</th><th>Context</th><th>Best For</th><th>In Copilot</th></tr>
+        ${catalogRows}
+      </table>
+      <p style="color:#8b949e;margin-top:12px;font-size:13px">${availabilityCheckedAt
+    ? `Availability checked ${availabilityCheckedAt.toLocaleString()}. Unavailable models are skipped by routing and hidden from pickers.`
+    : 'Copilot has not reported its models yet.'}</p>
+    </div>
+
+    <div class="section-title">Copilot Models Not in Catalog</div>
+    <div class="card">
+      ${unknownRows ? `
+      <table>
+        <tr><th>Name</th><th>ID</th><th>Family</th><th>Version</th><th>Max Input</th></tr>
+        ${unknownRows}
+      </table>
+      <p style="color:#8b949e;margin-top:12px;font-size:13px">Add these to the model catalog (with credit multiplier and capabilities) to make them routable.</p>
+      ` : '<div class="empty">Every Copilot model is in the catalog</div>'}
+    </div>
+  </div>
+
+  <!-- Policies -->
+  <div class="content" id="policies">
+    ${policyBanner}
+    <p style="color:#8b949e; margin-bottom:16px">Rules per department and team. For each field the most specific layer that sets it wins: team &gt; department &gt; global settings &gt; defaults. Blocked models add up across layers.</p>
+
+    <div class="section-title" style="margin-top:0">Effective Policy for This Developer</div>
+    <div class="card">
+      <table>
+        <tr><th></th><th>Value</th><th>From</th></tr>
+        <tr><td>Team / Department</td><td>${escapeHtml(policy.teamId || '—')} / ${escapeHtml(policy.departmentId || '—')}</td><td></td></tr>
+        <tr><td>Allowed Models</td><td>${escapeHtml(policy.allowedModels.value?.join(', ') || 'any')}</td><td>${from(policy.allowedModels.layer)}</td></tr>
+        <tr><td>Blocked Models</td><td>${escapeHtml(policy.blockedModels.join(', ') || 'none')}</td><td>all layers</td></tr>
+        <tr><td>Max Credit Tier</td><td>${escapeHtml(policy.maxCreditTier.value)}</td><td>${from(policy.maxCreditTier.layer)}</td></tr>
+        <tr><td>Monthly Budget</td><td>${policy.monthlyBudget.value}${policy.approvedCredits > 0 ? ` (incl. +${policy.approvedCredits} approved)` : ''}</td><td>${from(policy.monthlyBudget.layer)}</td></tr>
+      </table>
+      <div class="section-title">Routing Precedence</div>
+      <table>
+        <tr><th>Task Type</th><th>Candidates (first allowed wins)</th></tr>
+        ${policyRoutingRows}
+      </table>
+    </div>
+
+    <div class="section-title">Department Rules</div>
+    <div class="card">
+      <textarea id="departmentRules" spellcheck="false">${escapeJson(adminConfig.departmentRules)}</textarea>
+    </div>
+    <div class="section-title">Team Rules</div>
+    <div class="card">
+      <textarea id="teamRules" spellcheck="false">${escapeJson(adminConfig.teamRules)}</textarea>
+      <p style="color:#8b949e;margin-top:12px;font-size:13px">Fields: <code>allowedModels</code>, <code>blockedModels</code>, <code>defaultModel</code>, <code>taskRouting</code>, <code>maxCreditTier</code>, <code>monthlyBudget</code>. Example: <code>{"payments": {"maxCreditTier": "premium", "taskRouting": {"security": "claude-opus-4.5"}}}</code></p>
+      <button class="btn" id="savePolicies">Save Policies</button>
+    </div>
+  </div>
+
   <!-- Settings -->
   <div class="content" id="settings">
+    ${policyBanner}
     <div class="card" style="max-width:600px">
       <div class="section-title" style="margin-top:0">Classification</div>
       <p style="color:#8b949e;margin-bottom:12px;font-size:13px">The classifier model analyzes each prompt and routes it to the best task model. Choose a free model (0x credit) for zero-cost classification.</p>
@@ -277,11 +483,21 @@ function getAdminHTML(
           <td>
             <select id="classifierModel">
               ${MODELS.filter(m => m.creditMultiplier === 0 || m.creditMultiplier === 0.33).map(m =>
-    `<option value="${m.id}">${m.name} (${m.creditMultiplier}x)</option>`
+    `<option value="${escapeHtml(m.id)}">${escapeHtml(m.name)} (${m.creditMultiplier}x)</option>`
   ).join('')}
             </select>
           </td>
         </tr>
+        <tr>
+          <td>Adaptive Routing</td>
+          <td>
+            <select id="adaptiveRouting">
+              <option value="learn" ${adaptiveMode === 'learn' ? 'selected' : ''}>Learn from feedback</option>
+              <option value="frozen" ${adaptiveMode === 'frozen' ? 'selected' : ''}>Frozen (keep learned routing)</option>
+              <option value="off" ${adaptiveMode === 'off' ? 'selected' : ''}>Off</option>
+            </select>
+          </td>
+        </tr>
       </table>
 
       <div class="section-title">Budget & Limits</div>
@@ -289,7 +505,7 @@ function getAdminHTML(
         <tr>
           <td>Monthly Budget</td>
           <td>
-            <input type="number" id="monthlyBudget" value="300" min="0"
+            <input type="number" id="monthlyBudget" value="${monthlyBudget}" min="0"
               style="background:#21262d;color:#c9d1d9;border:1px solid #30363d;border-radius:6px;padding:6px 10px;width:100%;font-size:13px">
           </td>
         </tr>
@@ -327,14 +543,14 @@ function getAdminHTML(
         <tr>
           <td>Team ID</td>
           <td>
-            <input type="text" id="teamId" placeholder="engineering"
+            <input type="text" id="teamId" placeholder="engineering" value="${escapeHtml(policy.teamId)}"
               style="background:#21262d;color:#c9d1d9;border:1px solid #30363d;border-radius:6px;padding:6px 10px;width:100%;font-size:13px">
           </td>
         </tr>
         <tr>
           <td>Department ID</td>
           <td>
-            <input type="text" id="departmentId" placeholder="backend"
+            <input type="text" id="departmentId" placeholder="backend" value="${escapeHtml(policy.departmentId)}"
               style="background:#21262d;color:#c9d1d9;border:1px solid #30363d;border-radius:6px;padding:6px 10px;width:100%;font-size:13px">
           </td>
         </tr>
@@ -365,12 +581,26 @@ function getAdminHTML(
     vscode.postMessage({ type: 'saveRouting', routing });
   });
 
+  // Save department and team rules
+  document.getElementById('savePolicies')?.addEventListener('click', () => {
+    try {
+      vscode.postMessage({
+        type: 'savePolicies',
+        departmentRules: JSON.parse(document.getElementById('departmentRules').value || '{}'),
+        teamRules: JSON.parse(document.getElementById('teamRules').value || '{}')
+      });
+    } catch (e) {
+      vscode.postMessage({ type: 'error', message: 'Policies are not valid JSON: ' + e.message });
+    }
+  });
+
   // Save settings
   document.getElementById('saveSettings')?.addEventListener('click', () => {
     vscode.postMessage({
       type: 'saveSettings',
       settings: {
         classifierModel: document.getElementById('classifierModel').value,
+        adaptiveRouting: document.getElementById('adaptiveRouting').value,
         monthlyBudget: parseInt(document.getElementById('monthlyBudget').value) || 300,
         maxCreditTier: document.getElementById('maxCreditTier').value,
         collectFeedback: document.getElementById('collectFeedback').value === 'true',
@@ -0,0 +1,59 @@
+/**
+ * SimpLLM Model Availability
+ * Reconciles the catalog against the chat models Copilot actually offers
+ */
+import * as vscode from 'vscode';
+import { MODELS } from './models.js';
+
+export interface UnknownCopilotModel {
+    id: string;
+    family: string;
+    name: string;
+    version: string;
+    maxInputTokens: number;
+}
+
+// Copilot models seen at the last check; null until Copilot has reported any
+let copilotModels: vscode.LanguageModelChat[] | null = null;
+let lastChecked: Date | null = null;
+
+/**
+ * Query Copilot's chat models and mark every catalog model available or not
+ */
+export async function reconcileAvailability(): Promise<void> {
+    try {
+        const models = await vscode.lm.selectChatModels({ vendor: 'copilot' });
+        // An empty list usually means Copilot is still starting or signed out,
+        // not that the org disabled every model
+        copilotModels = models.length > 0 ? models : null;
+        lastChecked = new Date();
+    } catch (error) {
+        console.error('SimpLLM: could not list Copilot models', error);
+    }
+    markAvailability();
+}
+
+/**
+ * Apply the last known Copilot model list to the current catalog (after a catalog reload)
+ */
+export function markAvailability() {
+    const families = copilotModels ? new Set(copilotModels.map(m => m.family)) : null;
+    for (const model of MODELS) {
+        model.available = families ? families.has(model.family) : undefined;
+    }
+}
+
+/**
+ * Copilot models whose family no catalog entry maps to
+ */
+export function getUnknownCopilotModels(): UnknownCopilotModel[] {
+    if (!copilotModels) return [];
+    const families = new Set(MODELS.map(m => m.family));
+    return copilotModels
+        .filter(m => !families.has(m.family))
+        .map(m => ({ id: m.id, family: m.family, name: m.name, version: m.version, maxInputTokens: m.maxInputTokens }));
+}
+
+export function getAvailabilityCheckTime(): Date | null {
+    return lastChecked;
+}
@@ -0,0 +1,58 @@
+/**
+ * SimpLLM Budget Policy
+ * Progressively caps the credit tier as monthly usage crosses thresholds
+ */
+import { CreditTier, CREDIT_TIER_ORDER } from './models.js';
+import { getUsageStats } from './usage.js';
+import { getEffectivePolicy, getAdminConfig } from './policy.js';
+
+export interface BudgetThreshold {
+    percent: number;
+    maxTier: CreditTier;
+}
+
+export interface BudgetStatus {
+    used: number;
+    budget: number;
+    percent: number;
+    tierCap: CreditTier | null;
+}
+
+// Default policy: no 3x models past 70%, only 0.33x past 90%, free only once exhausted
+export const DEFAULT_BUDGET_POLICY: BudgetThreshold[] = [
+    { percent: 70, maxTier: 'standard' },
+    { percent: 90, maxTier: 'cheap' },
+    { percent: 100, maxTier: 'free' }
+];
+
+/**
+ * Thresholds from the admin config (central policy, then local settings unless it is
+ * locked), dropping malformed entries
+ */
+export function getBudgetPolicy(): BudgetThreshold[] {
+    const policy = getAdminConfig().budgetPolicy ?? DEFAULT_BUDGET_POLICY;
+    return (Array.isArray(policy) ? policy : DEFAULT_BUDGET_POLICY)
+        .filter(t => typeof t?.percent === 'number' && CREDIT_TIER_ORDER.includes(t.maxTier));
+}
+
+/**
+ * Current monthly budget usage and the tier cap it implies. A budget of 0 (or less)
+ * counts as exhausted, so every threshold applies.
+ */
+export function getBudgetStatus(): BudgetStatus {
+    const budget = getEffectivePolicy().monthlyBudget.value;
+    const used = getUsageStats().totalCreditsUsed;
+    const exhausted = budget <= 0;
+    const percent = exhausted ? 100 : (used / budget) * 100;
+
+    // The strictest cap among all thresholds that have been crossed
+    let tierCap: CreditTier | null = null;
+    for (const threshold of getBudgetPolicy()) {
+        if (!exhausted && percent < threshold.percent) continue;
+        if (!tierCap || CREDIT_TIER_ORDER.indexOf(threshold.maxTier) < CREDIT_TIER_ORDER.indexOf(tierCap)) {
+            tierCap = threshold.maxTier;
+        }
+    }
+
+    return { used, budget, percent, tierCap };
+}
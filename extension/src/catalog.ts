@@ -0,0 +1,304 @@
+/**
+ * SimpLLM Model Catalog Loader
+ * Merges the bundled models.json with workspace, path-setting and admin endpoint manifests
+ */
+import * as vscode from 'vscode';
+import {
+    ModelDefinition,
+    CatalogEntry,
+    CatalogManifest,
+    CATALOG_SCHEMA_VERSION,
+    BUNDLED_CATALOG,
+    CREDIT_TIER_ORDER,
+    setModels
+} from './models.js';
+import { callEndpoint } from './endpoint.js';
+import { getCentralPolicy } from './centralPolicy.js';
+
+export interface CatalogSource {
+    source: string;     // "bundled", "workspace", "setting" or "endpoint"
+    location: string;
+    version: string;
+    entries: number;
+}
+
+export interface CatalogStatus {
+    version: string;        // Version of the highest-priority manifest applied
+    modelCount: number;
+    sources: CatalogSource[];
+    errors: string[];
+}
+
+// Workspace override, relative to the first workspace folder
+export const WORKSPACE_CATALOG_PATH = '.simpllm/models.json';
+
+// What a known model costs, which tier it counts as and which Copilot family it maps to:
+// only the bundled catalog and the admin endpoint may change these
+const PROTECTED_FIELDS = ['family', 'creditMultiplier', 'creditTier', 'retired'] as const;
+
+const ENDPOINT_CACHE_KEY = 'simpllm.catalogCache';
+const ENDPOINT_TIMEOUT_MS = 5000;
+
+let extensionContext: vscode.ExtensionContext;
+let status: CatalogStatus = {
+    version: BUNDLED_CATALOG.version,
+    modelCount: BUNDLED_CATALOG.models.length,
+    sources: [{ source: 'bundled', location: 'models.json', version: BUNDLED_CATALOG.version, entries: BUNDLED_CATALOG.models.length }],
+    errors: []
+};
+
+/**
+ * Initialize catalog loader
+ */
+export function initCatalog(context: vscode.ExtensionContext) {
+    extensionContext = context;
+}
+
+export function getCatalogStatus(): CatalogStatus {
+    return status;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const CAPABILITY_KEYS = ['codeGeneration', 'reasoning', 'speed', 'contextWindow'] as const;
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check one entry; fields may be omitted only when it overrides a known model
+ */
+function validateEntry(entry: Record<string, unknown>, known: boolean): string[] {
+    const errors: string[] = [];
+    const required = !known && entry.retired !== true;
+    const check = (field: string, valid: boolean, expected: string) => {
+        if (entry[field] === undefined) {
+            if (required) errors.push(`"${field}" is required for a new model`);
+        } else if (!valid) {
+            errors.push(`"${field}" must be ${expected}`);
+        }
+    };
+
+    check('family', typeof entry.family === 'string' && entry.family !== '', 'a non-empty string');
+    check('name', typeof entry.name === 'string' && entry.name !== '', 'a non-empty string');
+    check('creditMultiplier', isNumber(entry.creditMultiplier) && entry.creditMultiplier >= 0, 'a number >= 0');
+    check('creditTier', CREDIT_TIER_ORDER.includes(entry.creditTier as never), `one of ${CREDIT_TIER_ORDER.join(', ')}`);
+    check('isPreview', typeof entry.isPreview === 'boolean', 'true or false');
+    check('bestFor', Array.isArray(entry.bestFor) && entry.bestFor.every(b => typeof b === 'string'), 'an array of strings');
+    if (entry.retired !== undefined && typeof entry.retired !== 'boolean') {
+        errors.push('"retired" must be true or false');
+    }
+
+    const capabilities = entry.capabilities as Record<string, unknown> | undefined;
+    check('capabilities', typeof capabilities === 'object' && capabilities !== null && !Array.isArray(capabilities), 'an object');
+    if (typeof capabilities === 'object' && capabilities !== null) {
+        for (const key of CAPABILITY_KEYS) {
+            const value = capabilities[key];
+            if (value === undefined) {
+                if (required) errors.push(`"capabilities.${key}" is required for a new model`);
+            } else if (!isNumber(value) || value < 0 || (key !== 'contextWindow' && value > 10)) {
+                errors.push(`"capabilities.${key}" must be ${key === 'contextWindow' ? 'a number of K tokens' : 'a number from 0 to 10'}`);
+            }
+        }
+    }
+    return errors;
+}
+
+/**
+ * Validate a parsed manifest against the catalog schema. `isKnown` tells whether an id
+ * is already in the catalog, in which case partial entries are allowed.
+ */
+export function validateManifest(data: unknown, isKnown: (id: string) => boolean): { manifest?: CatalogManifest; errors: string[] } {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return { errors: ['manifest must be a JSON object'] };
+    }
+    const manifest = data as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (manifest.schemaVersion !== CATALOG_SCHEMA_VERSION) {
+        errors.push(`"schemaVersion" must be ${CATALOG_SCHEMA_VERSION} (got ${JSON.stringify(manifest.schemaVersion)})`);
+    }
+    if (typeof manifest.version !== 'string' || manifest.version === '') {
+        errors.push('"version" must be a non-empty string');
+    }
+    if (!Array.isArray(manifest.models)) {
+        errors.push('"models" must be an array');
+        return { errors };
+    }
+
+    const seen = new Set<string>();
+    manifest.models.forEach((entry: unknown, i) => {
+        if (typeof entry !== 'object' || entry === null || typeof (entry as CatalogEntry).id !== 'string' || !(entry as CatalogEntry).id) {
+            errors.push(`models[${i}]: "id" must be a non-empty string`);
+            return;
+        }
+        const id = (entry as CatalogEntry).id;
+        if (seen.has(id)) errors.push(`models[${i}] (${id}): duplicate id`);
+        seen.add(id);
+        for (const error of validateEntry(entry as Record<string, unknown>, isKnown(id))) {
+            errors.push(`models[${i}] (${id}): ${error}`);
+        }
+    });
+
+    return errors.length > 0 ? { errors } : { manifest: data as CatalogManifest, errors };
+}
+
+/**
+ * Local manifests (workspace file, path setting) may add models and describe known ones,
+ * but not reprice, re-tier, remap or retire them, or pass a new id off as a known family
+ */
+function checkLocalManifest(manifest: CatalogManifest, models: ModelDefinition[]): string[] {
+    const errors: string[] = [];
+    const families = new Set(models.map(m => m.family));
+    manifest.models.forEach((entry, i) => {
+        if (models.some(m => m.id === entry.id)) {
+            for (const field of PROTECTED_FIELDS.filter(f => entry[f] !== undefined)) {
+                errors.push(`models[${i}] (${entry.id}): "${field}" can only be changed by the bundled catalog or simpllm.modelCatalogUrl`);
+            }
+        } else if (entry.family && families.has(entry.family)) {
+            errors.push(`models[${i}] (${entry.id}): family "${entry.family}" already belongs to a catalog model`);
+        }
+    });
+    return errors;
+}
+
+/**
+ * Apply a manifest on top of a catalog: new ids are added, known ids are patched,
+ * retired ids are dropped
+ */
+function mergeManifest(models: ModelDefinition[], manifest: CatalogManifest): ModelDefinition[] {
+    const merged = [...models];
+    for (const entry of manifest.models) {
+        const index = merged.findIndex(m => m.id === entry.id);
+        const { retired, ...fields } = entry;
+        if (retired) {
+            if (index !== -1) merged.splice(index, 1);
+        } else if (index === -1) {
+            merged.push(fields as ModelDefinition);
+        } else {
+            const current = merged[index];
+            merged[index] = { ...current, ...fields, capabilities: { ...current.capabilities, ...fields.capabilities } };
+        }
+    }
+    return merged;
+}
+
+// ============================================
+// SOURCES
+// ============================================
+
+async function readJsonFile(uri: vscode.Uri): Promise<unknown | undefined> {
+    try {
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        return JSON.parse(new TextDecoder().decode(bytes));
+    } catch (error) {
+        if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') return undefined;
+        throw error;
+    }
+}
+
+/**
+ * Manifest from the admin endpoint, or the last one fetched when offline
+ */
+async function fetchEndpointManifest(url: string): Promise<unknown | undefined> {
+    try {
+        const response = await callEndpoint(url, { timeoutMs: ENDPOINT_TIMEOUT_MS });
+        const data = await response.json();
+        await extensionContext.globalState.update(ENDPOINT_CACHE_KEY, { url, data });
+        return data;
+    } catch (error) {
+        const cached = extensionContext.globalState.get<{ url: string; data: unknown }>(ENDPOINT_CACHE_KEY);
+        if (cached?.url === url) return cached.data;
+        throw error;
+    }
+}
+
+interface OverrideSource {
+    source: string;
+    location: string;
+    local: boolean;     // Workspace or path setting, limited by checkLocalManifest
+    load: () => Promise<unknown | undefined>;
+}
+
+/**
+ * Override sources in increasing priority. Local manifests are only read in a trusted
+ * workspace and never under a locked central policy.
+ */
+function getOverrideSources(): OverrideSource[] {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const sources: OverrideSource[] = [];
+    const allowLocal = vscode.workspace.isTrusted && !getCentralPolicy()?.locked;
+
+    if (folder && allowLocal) {
+        const uri = vscode.Uri.joinPath(folder, WORKSPACE_CATALOG_PATH);
+        sources.push({ source: 'workspace', location: WORKSPACE_CATALOG_PATH, local: true, load: () => readJsonFile(uri) });
+    }
+
+    const path = config.get<string>('modelCatalogPath', '');
+    if (path && allowLocal) {
+        const isAbsolute = /^([a-zA-Z]:)?[\\/]/.test(path);
+        const uri = isAbsolute || !folder ? vscode.Uri.file(path) : vscode.Uri.joinPath(folder, path);
+        sources.push({ source: 'setting', location: path, local: true, load: () => readJsonFile(uri) });
+    }
+
+    const url = config.get<string>('modelCatalogUrl', '');
+    if (url) {
+        sources.push({ source: 'endpoint', location: url, local: false, load: () => fetchEndpointManifest(url) });
+    }
+    return sources;
+}
+
+/**
+ * Rebuild the live catalog from every source. Invalid manifests are skipped as a
+ * whole, so a typo never leaves the catalog half-applied.
+ */
+export async function reloadCatalog(): Promise<CatalogStatus> {
+    let models = BUNDLED_CATALOG.models as ModelDefinition[];
+    const next: CatalogStatus = { version: BUNDLED_CATALOG.version, modelCount: 0, sources: [], errors: [] };
+    next.sources.push({ source: 'bundled', location: 'models.json', version: BUNDLED_CATALOG.version, entries: models.length });
+
+    for (const { source, location, local, load } of getOverrideSources()) {
+        let data: unknown;
+        try {
+            data = await load();
+        } catch (error) {
+            next.errors.push(`${location}: ${error instanceof SyntaxError ? 'invalid JSON, ' : ''}${(error as Error).message}`);
+            continue;
+        }
+        if (data === undefined) continue;
+
+        const known = new Set(models.map(m => m.id));
+        const { manifest, errors } = validateManifest(data, id => known.has(id));
+        if (manifest && local) errors.push(...checkLocalManifest(manifest, models));
+        if (!manifest || errors.length > 0) {
+            next.errors.push(...errors.map(e => `${location}: ${e}`));
+            continue;
+        }
+
+        const merged = mergeManifest(models, manifest);
+        if (!merged.some(m => m.creditMultiplier === 0)) {
+            next.errors.push(`${location}: the catalog must keep at least one free (0x) model`);
+            continue;
+        }
+        models = merged;
+        next.version = manifest.version;
+        next.sources.push({ source, location, version: manifest.version, entries: manifest.models.length });
+    }
+
+    setModels(models);
+    next.modelCount = models.length;
+    status = next;
+
+    if (next.errors.length > 0) {
+        console.warn('SimpLLM: model catalog errors\n' + next.errors.join('\n'));
+        vscode.window.showWarningMessage(
+            `SimpLLM: Some model catalog overrides were ignored. ${next.errors[0]}` +
+            (next.errors.length > 1 ? ` (+${next.errors.length - 1} more)` : '')
+        );
+    }
+    return next;
+}
@@ -0,0 +1,125 @@
+/**
+ * SimpLLM Central Policy
+ * Signed policy pulled from the admin server, verified against a bundled key and cached for offline use
+ */
+import * as vscode from 'vscode';
+import { createPublicKey, verify } from 'crypto';
+import { AdminConfig } from './models.js';
+import { callEndpoint } from './endpoint.js';
+
+// Ed25519 key the admin server signs policies with. Replace with your
+// organization's public key before packaging the extension.
+const POLICY_PUBLIC_KEY = `-----BEGIN PUBLIC KEY-----
+MCowBQYDK2VwAyEAyL1BEoBupEJBzFp4FnHSB4Yo7rc6WLVt4f4GPXn2ybo=
+-----END PUBLIC KEY-----`;
+
+// What the server returns: the policy JSON (base64) and an Ed25519 signature over those bytes
+export interface SignedPolicyDocument {
+    payload: string;
+    signature: string;
+}
+
+export interface CentralPolicy {
+    version: number;
+    issuedAt: string;
+    // When locked, local settings for policy-managed keys are ignored entirely
+    locked: boolean;
+    config: Partial<AdminConfig>;
+}
+
+export interface CentralPolicyStatus {
+    policy: CentralPolicy | null;
+    source: 'server' | 'cache' | 'none';
+    error?: string;
+}
+
+// Settings the central policy manages (a locked policy also turns off modelCatalogPath).
+// A locked policy pins teamId and departmentId too, so nobody can pick a laxer team's rules.
+export const MANAGED_SETTINGS = [
+    'taskRouting', 'blockedModels', 'maxCreditTier', 'monthlyBudget',
+    'departmentRules', 'teamRules', 'teamId', 'departmentId', 'classifierModel', 'budgetPolicy', 'modelCatalogPath'
+] as const;
+
+const CACHE_KEY = 'simpllm.centralPolicy';
+const FETCH_TIMEOUT_MS = 5000;
+export const POLICY_REFRESH_MS = 60 * 60 * 1000;
+
+let status: CentralPolicyStatus = { policy: null, source: 'none' };
+let extensionContext: vscode.ExtensionContext;
+
+/**
+ * Initialize central policy from the offline cache
+ */
+export function initCentralPolicy(context: vscode.ExtensionContext) {
+    extensionContext = context;
+    const cached = context.globalState.get<SignedPolicyDocument>(CACHE_KEY);
+    if (cached) {
+        // The cache is re-verified, so editing globalState cannot forge a policy
+        const policy = verifyPolicy(cached);
+        if (policy) status = { policy, source: 'cache' };
+    }
+}
+
+export function getCentralPolicy(): CentralPolicy | null {
+    return status.policy;
+}
+
+export function getCentralPolicyStatus(): CentralPolicyStatus {
+    return status;
+}
+
+/**
+ * Verify a signed document and parse its policy; undefined if anything is off
+ */
+export function verifyPolicy(document: SignedPolicyDocument): CentralPolicy | undefined {
+    try {
+        const payload = Buffer.from(document.payload, 'base64');
+        const signature = Buffer.from(document.signature, 'base64');
+        if (!verify(null, payload, createPublicKey(POLICY_PUBLIC_KEY), signature)) return undefined;
+
+        const policy = JSON.parse(payload.toString('utf8')) as CentralPolicy;
+        if (!Number.isInteger(policy.version) || typeof policy.config !== 'object' || policy.config === null) {
+            return undefined;
+        }
+        return { ...policy, locked: policy.locked === true };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Pull the latest policy from the admin server. Keeps the cached policy when the
+ * server is unreachable or sends something that does not verify.
+ */
+export async function refreshCentralPolicy(): Promise<CentralPolicyStatus> {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    const url = config.get<string>('policyUrl', '');
+    if (!url) {
+        // Clearing the URL locally must not be a way out of a locked policy
+        if (status.policy?.locked) {
+            status = { ...status, error: 'policyUrl is not set; keeping the locked policy' };
+        } else {
+            status = { policy: null, source: 'none' };
+            await extensionContext.globalState.update(CACHE_KEY, undefined);
+        }
+        return status;
+    }
+
+    try {
+        const response = await callEndpoint(url, { timeoutMs: FETCH_TIMEOUT_MS });
+        const document = await response.json() as SignedPolicyDocument;
+        const policy = verifyPolicy(document);
+        if (!policy) throw new Error('policy signature verification failed');
+        // Never go back to an older policy (replayed or stale responses)
+        if (status.policy && policy.version < status.policy.version) {
+            throw new Error(`policy v${policy.version} is older than active v${status.policy.version}`);
+        }
+
+        await extensionContext.globalState.update(CACHE_KEY, document);
+        status = { policy, source: 'server' };
+    } catch (error) {
+        console.warn('SimpLLM: central policy refresh failed', error);
+        status = { ...status, error: (error as Error).message };
+    }
+    return status;
+}
@@ -0,0 +1,91 @@
+/**
+ * SimpLLM Classification Cache
+ * LRU cache of classifier results keyed by a normalized prompt fingerprint (persisted to globalState)
+ */
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { Classification } from './models.js';
+
+interface CacheEntry {
+    key: string;
+    classification: Classification;
+    storedAt: number;
+}
+
+const CACHE_KEY = 'simpllm.classificationCache';
+const MAX_ENTRIES = 500;
+const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Most recently used last (persisted to globalState)
+let entries: CacheEntry[] = [];
+let hits = 0;
+let misses = 0;
+let extensionContext: vscode.ExtensionContext;
+
+/**
+ * Initialize classification cache
+ */
+export function initClassifierCache(context: vscode.ExtensionContext) {
+    extensionContext = context;
+    const now = Date.now();
+    entries = context.globalState.get<CacheEntry[]>(CACHE_KEY, []).filter(e => now - e.storedAt < TTL_MS);
+}
+
+/**
+ * Fingerprint a prompt so trivially different phrasings share a key:
+ * code blocks are hashed on their own, prose is case- and whitespace-normalized.
+ * Context that changes the classification (attachments, previous task) is part of the key.
+ */
+export function fingerprint(prompt: string, context = ''): string {
+    const normalized = prompt
+        .replace(/```[\s\S]*?```/g, block => `<code:${hash(block.replace(/\s+/g, ' '))}>`)
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/[.!?]+$/, '');
+    return hash(normalized + '\n' + context);
+}
+
+function hash(text: string): string {
+    return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+/**
+ * Cached classification for a fingerprint, if present and fresh. A peek (dry runs)
+ * leaves the hit/miss counters and LRU order untouched.
+ */
+export function getCachedClassification(key: string, peek = false): Classification | undefined {
+    const index = entries.findIndex(e => e.key === key);
+    if (index === -1 || Date.now() - entries[index].storedAt >= TTL_MS) {
+        if (!peek) misses++;
+        return undefined;
+    }
+    if (peek) return entries[index].classification;
+
+    // Move to most recently used
+    const [entry] = entries.splice(index, 1);
+    entries.push(entry);
+    hits++;
+    return entry.classification;
+}
+
+/**
+ * Store a classifier result, evicting the least recently used entries
+ */
+export async function cacheClassification(key: string, classification: Classification) {
+    entries = entries.filter(e => e.key !== key);
+    // Raw output is only useful for the request that produced it
+    entries.push({ key, classification: { ...classification, raw: undefined }, storedAt: Date.now() });
+    if (entries.length > MAX_ENTRIES) {
+        entries = entries.slice(-MAX_ENTRIES);
+    }
+    await extensionContext.globalState.update(CACHE_KEY, entries);
+}
+
+/**
+ * Session hit/miss counters and current cache size
+ */
+export function getCacheStats(): { hits: number; misses: number; hitRate: number; size: number } {
+    const lookups = hits + misses;
+    return { hits, misses, hitRate: lookups > 0 ? hits / lookups : 0, size: entries.length };
+}
@@ -0,0 +1,96 @@
+/**
+ * SimpLLM Conversation Builder
+ * Turns chat history into an ordered message array and a condensed view for the classifier
+ */
+import * as vscode from 'vscode';
+
+export interface Conversation {
+    messages: vscode.LanguageModelChatMessage[];
+    // Index of the first history message (after the optional preamble)
+    historyStart: number;
+}
+
+// How much of each earlier turn the classifier gets to see
+const CLASSIFIER_TURNS = 3;
+const CLASSIFIER_TURN_CHARS = 200;
+
+/**
+ * Markdown text of a previous response, without SimpLLM's routing header
+ */
+function responseText(turn: vscode.ChatResponseTurn): string {
+    let text = '';
+    for (const part of turn.response) {
+        if (part instanceof vscode.ChatResponseMarkdownPart) text += part.value.value;
+    }
+    return text.replace(/^> \*\*[^\n]*\n\n/, '').trim();
+}
+
+/**
+ * Build messages in chronological order: preamble, history, then the current prompt
+ */
+export function buildConversation(
+    prompt: string,
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>,
+    options: { preamble?: string; referenceContext?: string } = {}
+): Conversation {
+    const messages: vscode.LanguageModelChatMessage[] = [];
+    if (options.preamble) {
+        // The LM API has no system role; a leading user message plays that part
+        messages.push(vscode.LanguageModelChatMessage.User(options.preamble));
+    }
+    const historyStart = messages.length;
+
+    for (const turn of history) {
+        if (turn instanceof vscode.ChatRequestTurn) {
+            messages.push(vscode.LanguageModelChatMessage.User(turn.prompt));
+        } else if (turn instanceof vscode.ChatResponseTurn) {
+            const text = responseText(turn);
+            if (text) messages.push(vscode.LanguageModelChatMessage.Assistant(text));
+        }
+    }
+
+    const current = options.referenceContext ? `${options.referenceContext}\n\n${prompt}` : prompt;
+    messages.push(vscode.LanguageModelChatMessage.User(current));
+
+    return { messages, historyStart };
+}
+
+/**
+ * Condensed view of the last few turns, so follow-ups like "now write tests for that"
+ * are classified with the context they refer to
+ */
+export function summarizeHistory(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+): string {
+    const lines: string[] = [];
+    for (const turn of history.slice(-CLASSIFIER_TURNS * 2)) {
+        if (turn instanceof vscode.ChatRequestTurn) {
+            lines.push(`User: ${truncate(turn.prompt)}`);
+        } else if (turn instanceof vscode.ChatResponseTurn) {
+            const taskType = turn.result.metadata?.taskType;
+            const label = taskType ? `Assistant [TASK:${taskType}]` : 'Assistant';
+            lines.push(`${label}: ${truncate(responseText(turn))}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Task type SimpLLM routed the most recent response as, if any
+ */
+export function lastTaskType(
+    history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>
+): string | undefined {
+    for (let i = history.length - 1; i >= 0; i--) {
+        const turn = history[i];
+        if (turn instanceof vscode.ChatResponseTurn && turn.result.metadata?.taskType) {
+            return turn.result.metadata.taskType;
+        }
+    }
+    return undefined;
+}
+
+function truncate(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > CLASSIFIER_TURN_CHARS ? flat.slice(0, CLASSIFIER_TURN_CHARS) + '…' : flat;
+}
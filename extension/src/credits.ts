@@ -0,0 +1,205 @@
+/**
+ * SimpLLM Credit Requests
+ * Extra-credit requests to the admin, their decisions, and the credits they add to this month's budget
+ */
+import * as vscode from 'vscode';
+import { generateRequestId } from './feedback.js';
+import { getUsageStats, monthKey } from './usage.js';
+import { enqueueEvent, flushOutbox, isEventPending } from './outbox.js';
+import { callEndpoint } from './endpoint.js';
+
+export type CreditRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface CreditRequest {
+    id: string;
+    createdAt: string;
+    amount: number;             // Credits asked for
+    reason: string;
+    status: CreditRequestStatus;
+    approvedAmount?: number;    // May be less than asked for
+    comment?: string;           // Admin's note with the decision
+    decidedAt?: string;
+    month?: string;             // Month the approved credits apply to (YYYY-MM)
+}
+
+// One entry of the decisions endpoint response: { "requests": [...] }
+interface CreditDecision {
+    id: string;
+    status: CreditRequestStatus;
+    approvedAmount?: number;
+    comment?: string;
+    decidedAt?: string;
+}
+
+const STORE_KEY = 'simpllm.creditRequests';
+const MAX_STORED_REQUESTS = 100;
+const DEFAULT_REQUEST_AMOUNT = 50;
+const MAX_REQUEST_AMOUNT = 10000;  // The dashboard refuses larger requests too
+export const CREDIT_POLL_MS = 15 * 60 * 1000;
+
+let requests: CreditRequest[] = [];
+let extensionContext: vscode.ExtensionContext;
+
+/**
+ * Initialize credit request store
+ */
+export function initCredits(context: vscode.ExtensionContext) {
+    extensionContext = context;
+    requests = context.globalState.get<CreditRequest[]>(STORE_KEY, []);
+}
+
+async function persistRequests() {
+    if (requests.length > MAX_STORED_REQUESTS) {
+        // Drop the oldest decided requests first; pending ones are still being tracked
+        const decided = requests.filter(r => r.status !== 'pending');
+        const excess = new Set(decided.slice(0, requests.length - MAX_STORED_REQUESTS));
+        requests = requests.filter(r => !excess.has(r));
+    }
+    await extensionContext.globalState.update(STORE_KEY, requests);
+}
+
+export function getCreditRequests(): CreditRequest[] {
+    return requests;
+}
+
+/**
+ * Credits approved for the given month (defaults to the current one)
+ */
+export function getApprovedCredits(month = monthKey(new Date())): number {
+    return requests
+        .filter(r => r.status === 'approved' && r.month === month)
+        .reduce((sum, r) => sum + (r.approvedAmount ?? 0), 0);
+}
+
+/**
+ * Where to poll for decisions: simpllm.creditRequestsUrl, or "credit-requests" next to the feedback endpoint
+ */
+function getDecisionsUrl(): string | undefined {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    const url = config.get<string>('creditRequestsUrl', '');
+    if (url) return url;
+    const endpoint = config.get<string>('feedbackEndpoint', '');
+    if (!endpoint) return undefined;
+    try {
+        return new URL('credit-requests', endpoint).toString();
+    } catch {
+        return undefined;
+    }
+}
+
+// ============================================
+// SUBMIT
+// ============================================
+
+/**
+ * Ask the developer for an amount and reason, store the request and queue it for the admin
+ */
+export async function requestExtraCredits() {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    if (!config.get<string>('feedbackEndpoint', '')) {
+        vscode.window.showInformationMessage('SimpLLM: No admin endpoint configured. Please contact your admin directly.');
+        return;
+    }
+
+    const amountText = await vscode.window.showInputBox({
+        title: 'SimpLLM — Extra Credit Request',
+        prompt: 'How many extra credits do you need this month?',
+        value: String(DEFAULT_REQUEST_AMOUNT),
+        validateInput: value => {
+            const amount = Number(value);
+            return Number.isFinite(amount) && amount > 0 && amount <= MAX_REQUEST_AMOUNT
+                ? undefined
+                : `Enter a number greater than 0 and at most ${MAX_REQUEST_AMOUNT}`;
+        }
+    });
+    if (!amountText) return;
+
+    const reason = await vscode.window.showInputBox({
+        placeHolder: 'Why do you need extra credits?',
+        title: 'SimpLLM — Extra Credit Request',
+        prompt: 'This will be sent to your admin for approval.'
+    });
+    if (!reason) return;
+
+    const request: CreditRequest = {
+        id: generateRequestId(),
+        createdAt: new Date().toISOString(),
+        amount: Number(amountText),
+        reason,
+        status: 'pending'
+    };
+    requests.push(request);
+    await persistRequests();
+
+    await enqueueEvent('credit_request', request.id, {
+        timestamp: request.createdAt,
+        requestId: request.id,
+        amount: request.amount,
+        currentUsage: getUsageStats().totalCreditsUsed,
+        reason
+    });
+    await flushOutbox();
+
+    if (isEventPending('credit_request', request.id)) {
+        vscode.window.showInformationMessage('SimpLLM: Admin server unreachable. Your credit request is queued and will be sent automatically.');
+    } else {
+        vscode.window.showInformationMessage('SimpLLM: Credit request submitted! Your admin will review it. Check /credits for its status.');
+    }
+}
+
+// ============================================
+// DECISIONS
+// ============================================
+
+/**
+ * Ask the admin server for decisions on pending requests. Returns true when any changed.
+ */
+export async function pollCreditDecisions(): Promise<boolean> {
+    // Requests still in the outbox have not reached the server yet
+    const pending = requests.filter(r => r.status === 'pending' && !isEventPending('credit_request', r.id));
+    const baseUrl = getDecisionsUrl();
+    if (pending.length === 0 || !baseUrl) return false;
+
+    let decisions: CreditDecision[];
+    try {
+        const url = new URL(baseUrl);
+        url.searchParams.set('ids', pending.map(r => r.id).join(','));
+        const response = await callEndpoint(url.toString());
+        decisions = ((await response.json()) as { requests?: CreditDecision[] }).requests ?? [];
+    } catch (error) {
+        console.warn('SimpLLM: could not check credit request status', error);
+        return false;
+    }
+
+    let changed = false;
+    for (const decision of decisions) {
+        const request = pending.find(r => r.id === decision.id);
+        if (!request || (decision.status !== 'approved' && decision.status !== 'rejected')) continue;
+
+        const decidedAt = decision.decidedAt ?? new Date().toISOString();
+        Object.assign(request, {
+            status: decision.status,
+            comment: decision.comment,
+            decidedAt,
+            approvedAmount: decision.status === 'approved' ? Math.max(0, decision.approvedAmount ?? request.amount) : undefined,
+            // Approved credits count toward the month the developer hears about them
+            month: decision.status === 'approved' ? monthKey(new Date()) : undefined
+        });
+        changed = true;
+        notifyDecision(request);
+    }
+
+    if (changed) await persistRequests();
+    return changed;
+}
+
+function notifyDecision(request: CreditRequest) {
+    const comment = request.comment ? ` Admin: "${request.comment}"` : '';
+    if (request.status === 'approved') {
+        vscode.window.showInformationMessage(
+            `SimpLLM: Your request for ${request.amount} credits was approved. +${request.approvedAmount} credits added to this month's budget.${comment}`
+        );
+    } else {
+        vscode.window.showWarningMessage(`SimpLLM: Your request for ${request.amount} credits was rejected.${comment}`);
+    }
+}
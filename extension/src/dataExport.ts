@@ -0,0 +1,359 @@
+/**
+ * SimpLLM Data Export
+ * Export feedback and usage history (CSV, JSON Lines, Markdown report) and import JSONL from another machine
+ */
+import * as vscode from 'vscode';
+import { getModel } from './models.js';
+import { FeedbackEntry, getFeedbackStats, importFeedback } from './feedback.js';
+import { readFeedback } from './feedbackStore.js';
+import { UsageEntry, getUsageLog, getUsageMonths, importUsage } from './usage.js';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'markdown';
+
+export interface ExportFilter {
+    from?: string;          // YYYY-MM-DD, inclusive
+    to?: string;            // YYYY-MM-DD, inclusive
+    taskTypes?: string[];   // Empty or unset: all
+    models?: string[];
+}
+
+// One JSONL line: the entry plus which log it belongs to
+type ExportRecord = ({ kind: 'feedback' } & FeedbackEntry) | ({ kind: 'usage' } & UsageEntry);
+
+const FEEDBACK_COLUMNS: Array<keyof FeedbackEntry> = [
+    'timestamp', 'requestId', 'selectedModel', 'taskType', 'rating', 'overriddenTo',
+    'promptLength', 'responseTime', 'inputTokens', 'outputTokens', 'experiment', 'arm'
+];
+const USAGE_COLUMNS: Array<keyof UsageEntry> = [
+    'timestamp', 'requestId', 'model', 'taskType', 'creditMultiplier',
+    'inputTokens', 'outputTokens', 'responseTime', 'experiment', 'arm', 'imported'
+];
+
+// ============================================
+// FILTERING
+// ============================================
+
+function matches(filter: ExportFilter, timestamp: string, taskType: string, model: string): boolean {
+    const day = timestamp.slice(0, 10);
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.taskTypes?.length && !filter.taskTypes.includes(taskType)) return false;
+    if (filter.models?.length && !filter.models.includes(model)) return false;
+    return true;
+}
+
+export function getAllUsage(): UsageEntry[] {
+    return getUsageMonths().flatMap(month => getUsageLog(month));
+}
+
+export async function filterFeedback(filter: ExportFilter): Promise<FeedbackEntry[]> {
+    const entries = await readFeedback(filter.from, filter.to);
+    return entries.filter(e => matches(filter, e.timestamp, e.taskType, e.selectedModel));
+}
+
+export function filterUsage(filter: ExportFilter): UsageEntry[] {
+    return getAllUsage().filter(e => matches(filter, e.timestamp, e.taskType, e.model));
+}
+
+// ============================================
+// FORMATS
+// ============================================
+
+function toCsv<T>(rows: T[], columns: Array<keyof T>): string {
+    const cell = (value: unknown) => {
+        const text = value === undefined || value === null ? '' : String(value);
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [columns.join(','), ...rows.map(row => columns.map(c => cell(row[c])).join(','))].join('\n') + '\n';
+}
+
+export function feedbackToCsv(entries: FeedbackEntry[]): string {
+    return toCsv(entries, FEEDBACK_COLUMNS);
+}
+
+export function usageToCsv(entries: UsageEntry[]): string {
+    return toCsv(entries, USAGE_COLUMNS);
+}
+
+export function toJsonl(feedback: FeedbackEntry[], usage: UsageEntry[]): string {
+    const records: ExportRecord[] = [
+        ...usage.map(e => ({ kind: 'usage' as const, ...e })),
+        ...feedback.map(e => ({ kind: 'feedback' as const, ...e }))
+    ];
+    return records.map(r => JSON.stringify(r)).join('\n') + (records.length > 0 ? '\n' : '');
+}
+
+interface ReportRow {
+    requests: number;
+    credits: number;
+    responseTime: number;
+    timedRequests: number;
+    positive: number;
+    negative: number;
+    overrides: number;
+}
+
+const emptyRow = (): ReportRow => ({ requests: 0, credits: 0, responseTime: 0, timedRequests: 0, positive: 0, negative: 0, overrides: 0 });
+
+function satisfaction(row: ReportRow): string {
+    const rated = row.positive + row.negative;
+    return rated > 0 ? `${Math.round(row.positive / rated * 100)}%` : '—';
+}
+
+/**
+ * Summary report: totals, per-model and per-task tables and the most common overrides
+ */
+export function toMarkdownReport(feedback: FeedbackEntry[], usage: UsageEntry[], filter: ExportFilter): string {
+    const total = emptyRow();
+    const byModel: Record<string, ReportRow> = {};
+    const byTask: Record<string, ReportRow> = {};
+    const overrides: Record<string, number> = {};
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for (const entry of usage) {
+        for (const row of [total, byModel[entry.model] ??= emptyRow(), byTask[entry.taskType] ??= emptyRow()]) {
+            row.requests++;
+            row.credits += entry.creditMultiplier;
+            if (entry.responseTime !== undefined) {
+                row.responseTime += entry.responseTime;
+                row.timedRequests++;
+            }
+        }
+        inputTokens += entry.inputTokens;
+        outputTokens += entry.outputTokens;
+    }
+    for (const entry of feedback) {
+        const field = entry.rating === 'override' ? 'overrides' : entry.rating;
+        for (const row of [total, byModel[entry.selectedModel] ??= emptyRow(), byTask[entry.taskType] ??= emptyRow()]) {
+            row[field]++;
+        }
+        if (entry.rating === 'override') {
+            const key = `${entry.selectedModel} → ${entry.overriddenTo ?? '?'}`;
+            overrides[key] = (overrides[key] ?? 0) + 1;
+        }
+    }
+
+    const name = (id: string) => getModel(id)?.name ?? id;
+    const avgTime = (row: ReportRow) => row.timedRequests > 0 ? `${(row.responseTime / row.timedRequests / 1000).toFixed(1)}s` : '—';
+    const byRequests = (rows: Record<string, ReportRow>) => Object.entries(rows).sort(([, a], [, b]) => b.requests - a.requests);
+
+    const lines = [
+        `# SimpLLM Report`,
+        ``,
+        `- **Period:** ${filter.from ?? 'start'} – ${filter.to ?? 'today'}`,
+        `- **Task types:** ${filter.taskTypes?.length ? filter.taskTypes.join(', ') : 'all'}`,
+        `- **Models:** ${filter.models?.length ? filter.models.map(name).join(', ') : 'all'}`,
+        `- **Generated:** ${new Date().toISOString()}`,
+        ``,
+        `## Totals`,
+        ``,
+        `| Requests | Credits | Input Tokens | Output Tokens | 👍 | 👎 | Overrides | Satisfaction |`,
+        `|---|---|---|---|---|---|---|---|`,
+        `| ${total.requests} | ${total.credits.toFixed(1)}x | ${Math.round(inputTokens)} | ${Math.round(outputTokens)} | ${total.positive} | ${total.negative} | ${total.overrides} | ${satisfaction(total)} |`,
+        ``,
+        `## By Model`,
+        ``,
+        `| Model | Requests | Credits | Avg Response | 👍 | 👎 | Overridden | Satisfaction |`,
+        `|---|---|---|---|---|---|---|---|`,
+        ...byRequests(byModel).map(([id, r]) =>
+            `| ${name(id)} | ${r.requests} | ${r.credits.toFixed(1)}x | ${avgTime(r)} | ${r.positive} | ${r.negative} | ${r.overrides} | ${satisfaction(r)} |`),
+        ``,
+        `## By Task`,
+        ``,
+        `| Task | Requests | Credits | 👍 | 👎 | Overridden | Satisfaction |`,
+        `|---|---|---|---|---|---|---|`,
+        ...byRequests(byTask).map(([task, r]) =>
+            `| ${task} | ${r.requests} | ${r.credits.toFixed(1)}x | ${r.positive} | ${r.negative} | ${r.overrides} | ${satisfaction(r)} |`),
+        ``
+    ];
+
+    const topOverrides = Object.entries(overrides).sort(([, a], [, b]) => b - a).slice(0, 20);
+    if (topOverrides.length > 0) {
+        lines.push(`## Overrides`, ``, `| Routed → Switched To | Count |`, `|---|---|`);
+        lines.push(...topOverrides.map(([key, count]) => `| ${key} | ${count} |`), ``);
+    }
+    return lines.join('\n');
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+const isString = (value: unknown) => typeof value === 'string' && value !== '';
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+// Credits, token counts, lengths and durations: "1e999", NaN or negatives would poison every total
+const isCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isOptionalCount = (value: unknown) => value === undefined || isCount(value);
+const isTimestamp = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+// Model ids and task types end up in the admin panel and reports; only accept plain identifiers
+const isIdentifier = (value: unknown) => typeof value === 'string' && /^[\w.:-]+$/.test(value);
+const isOptionalIdentifier = (value: unknown) => value === undefined || isIdentifier(value);
+
+function isFeedbackRecord(record: Record<string, unknown>): boolean {
+    return isTimestamp(record.timestamp) && isString(record.requestId) && isIdentifier(record.selectedModel) &&
+        isIdentifier(record.taskType) && isOptionalIdentifier(record.overriddenTo) &&
+        ['positive', 'negative', 'override'].includes(record.rating as string) &&
+        isOptionalCount(record.promptLength) && isOptionalCount(record.responseTime) &&
+        isOptionalCount(record.inputTokens) && isOptionalCount(record.outputTokens) &&
+        isOptionalString(record.experiment) && isOptionalString(record.arm);
+}
+
+function isUsageRecord(record: Record<string, unknown>): boolean {
+    return isTimestamp(record.timestamp) && isString(record.requestId) && isIdentifier(record.model) && isIdentifier(record.taskType) &&
+        isCount(record.creditMultiplier) && isCount(record.inputTokens) && isCount(record.outputTokens) &&
+        isOptionalCount(record.responseTime) && isOptionalString(record.experiment) && isOptionalString(record.arm);
+}
+
+// Only the checked fields are merged; anything else on the line is dropped
+function pick<T>(record: Record<string, unknown>, columns: Array<keyof T>): T {
+    const entry: Record<string, unknown> = {};
+    for (const column of columns) {
+        if (record[column as string] !== undefined) entry[column as string] = record[column as string];
+    }
+    return entry as T;
+}
+
+/**
+ * Parse an exported JSONL file; malformed lines are counted, not fatal
+ */
+export function parseJsonl(text: string): { feedback: FeedbackEntry[]; usage: UsageEntry[]; invalidLines: number[] } {
+    const feedback: FeedbackEntry[] = [];
+    const usage: UsageEntry[] = [];
+    const invalidLines: number[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (line.trim() === '') return;
+        let record: Record<string, unknown>;
+        try {
+            record = JSON.parse(line);
+        } catch {
+            invalidLines.push(index + 1);
+            return;
+        }
+        const { kind, ...entry } = record ?? {};
+        if (kind === 'feedback' && isFeedbackRecord(entry)) feedback.push(pick(entry, FEEDBACK_COLUMNS));
+        else if (kind === 'usage' && isUsageRecord(entry)) usage.push(pick(entry, USAGE_COLUMNS));
+        else invalidLines.push(index + 1);
+    });
+    return { feedback, usage, invalidLines };
+}
+
+// ============================================
+// COMMANDS
+// ============================================
+
+const DATE_RANGE_PATTERN = /^\s*(\d{4}-\d{2}-\d{2})?\s*(?:\.\.\s*(\d{4}-\d{2}-\d{2})?)?\s*$/;
+
+/**
+ * Ask for date range, task types and models; undefined if the developer cancelled
+ */
+async function pickFilter(taskTypes: string[], models: string[]): Promise<ExportFilter | undefined> {
+    const range = await vscode.window.showInputBox({
+        title: 'SimpLLM Export — Date Range',
+        prompt: 'YYYY-MM-DD..YYYY-MM-DD (either side may be left out; empty for everything)',
+        placeHolder: '2026-01-01..2026-03-31',
+        validateInput: value => DATE_RANGE_PATTERN.test(value) ? undefined : 'Use YYYY-MM-DD..YYYY-MM-DD'
+    });
+    if (range === undefined) return undefined;
+    const [, from, to] = DATE_RANGE_PATTERN.exec(range) ?? [];
+
+    const pickedTasks = await vscode.window.showQuickPick(taskTypes, {
+        title: 'SimpLLM Export — Task Types',
+        placeHolder: 'Pick task types to include (none = all)',
+        canPickMany: true
+    });
+    if (pickedTasks === undefined) return undefined;
+
+    const pickedModels = await vscode.window.showQuickPick(
+        models.map(id => ({ label: getModel(id)?.name ?? id, description: id, id })),
+        { title: 'SimpLLM Export — Models', placeHolder: 'Pick models to include (none = all)', canPickMany: true }
+    );
+    if (pickedModels === undefined) return undefined;
+
+    return { from, to, taskTypes: pickedTasks, models: pickedModels.map(m => m.id) };
+}
+
+/**
+ * Command: export feedback and usage with filters
+ */
+export async function exportData() {
+    const format = await vscode.window.showQuickPick([
+        { label: 'CSV', description: 'One table (feedback or usage) for spreadsheets', format: 'csv' as ExportFormat },
+        { label: 'JSON Lines', description: 'Feedback and usage, re-importable on another machine', format: 'jsonl' as ExportFormat },
+        { label: 'Markdown Report', description: 'Summary by model and task type', format: 'markdown' as ExportFormat }
+    ], { title: 'SimpLLM Export — Format' });
+    if (!format) return;
+
+    let dataset: 'feedback' | 'usage' | undefined;
+    if (format.format === 'csv') {
+        const picked = await vscode.window.showQuickPick([
+            { label: 'Feedback', dataset: 'feedback' as const },
+            { label: 'Usage', dataset: 'usage' as const }
+        ], { title: 'SimpLLM Export — Data' });
+        if (!picked) return;
+        dataset = picked.dataset;
+    }
+
+    // Feedback task types and models come from the index rather than reading every segment
+    const feedbackByTask = getFeedbackStats().byTaskModel;
+    const allUsage = getAllUsage();
+    const taskTypes = [...new Set([...allUsage.map(e => e.taskType), ...Object.keys(feedbackByTask)])].sort();
+    const models = [...new Set([
+        ...allUsage.map(e => e.model),
+        ...Object.values(feedbackByTask).flatMap(byModel => Object.keys(byModel))
+    ])].sort();
+    const filter = await pickFilter(taskTypes, models);
+    if (!filter) return;
+
+    const feedback = await filterFeedback(filter);
+    const usage = filterUsage(filter);
+    const content = format.format === 'csv'
+        ? (dataset === 'feedback' ? feedbackToCsv(feedback) : usageToCsv(usage))
+        : format.format === 'jsonl' ? toJsonl(feedback, usage) : toMarkdownReport(feedback, usage, filter);
+
+    const extension = { csv: 'csv', jsonl: 'jsonl', markdown: 'md' }[format.format];
+    const baseName = `simpllm-${dataset ?? (format.format === 'markdown' ? 'report' : 'data')}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        title: 'SimpLLM Export',
+        defaultUri: folder ? vscode.Uri.joinPath(folder, baseName) : undefined,
+        filters: { [format.label]: [extension] }
+    });
+    if (!target) return;
+
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+    const rows = dataset === 'feedback' ? `${feedback.length} feedback entries`
+        : dataset === 'usage' ? `${usage.length} usage entries`
+        : `${usage.length} usage and ${feedback.length} feedback entries`;
+    const choice = await vscode.window.showInformationMessage(`SimpLLM: Exported ${rows}.`, 'Open');
+    if (choice) vscode.window.showTextDocument(target);
+}
+
+/**
+ * Command: merge a JSONL export from another machine into the local logs
+ */
+export async function importData() {
+    const [source] = await vscode.window.showOpenDialog({
+        title: 'SimpLLM Import',
+        canSelectMany: false,
+        filters: { 'JSON Lines': ['jsonl'] }
+    }) ?? [];
+    if (!source) return;
+
+    const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(source));
+    const { feedback, usage, invalidLines } = parseJsonl(text);
+    const addedUsage = await importUsage(usage);
+    const addedFeedback = await importFeedback(feedback);
+
+    const skipped = usage.length + feedback.length - addedUsage - addedFeedback;
+    const message = `SimpLLM: Imported ${addedUsage} usage and ${addedFeedback} feedback entries` +
+        (skipped > 0 ? `, ${skipped} already present` : '') + '.';
+    if (invalidLines.length > 0) {
+        vscode.window.showWarningMessage(
+            `${message} Ignored ${invalidLines.length} invalid line(s): ${invalidLines.slice(0, 5).join(', ')}${invalidLines.length > 5 ? ', …' : ''}`
+        );
+    } else {
+        vscode.window.showInformationMessage(message);
+    }
+}
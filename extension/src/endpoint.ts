@@ -0,0 +1,286 @@
+/**
+ * SimpLLM Endpoint Client
+ * Authenticated, signed requests to the admin server; every outbound call goes through here
+ */
+import * as vscode from 'vscode';
+import { createHash, createPrivateKey, generateKeyPairSync, randomUUID, sign } from 'crypto';
+import { getCentralPolicy } from './centralPolicy.js';
+
+export type AuthProvider = 'none' | 'github' | 'microsoft' | 'token';
+
+// Failed call to the admin server; status is undefined for network errors and timeouts, 0 for a bad URL
+export class EndpointError extends Error {
+    constructor(message: string, readonly status?: number) {
+        super(message);
+        this.name = 'EndpointError';
+    }
+
+    /** Worth sending again later. Auth failures clear up once the developer signs in. */
+    get retryable(): boolean {
+        return this.status === undefined || this.status >= 500 || [401, 403, 408, 429].includes(this.status);
+    }
+}
+
+export interface EndpointRequest {
+    method?: 'GET' | 'POST';
+    body?: unknown;
+    timeoutMs?: number;
+}
+
+// This install's registration with an admin server; the private key never leaves the machine
+interface RegisteredClient {
+    clientId: string;
+    userId: string;         // Assigned by the server from the verified account
+    privateKey: string;     // PKCS#8 PEM, Ed25519
+}
+
+const TOKEN_SECRET_KEY = 'simpllm.endpointToken';
+const CLIENTS_SECRET_KEY = 'simpllm.endpointClients';   // RegisteredClient by server origin
+const DEFAULT_TIMEOUT_MS = 10000;
+const SESSION_SCOPES: Record<'github' | 'microsoft', string[]> = {
+    github: ['read:user'],
+    microsoft: ['openid', 'profile']
+};
+
+let extensionContext: vscode.ExtensionContext;
+let authWarningShown = false;
+
+/**
+ * Initialize endpoint client
+ */
+export function initEndpoint(context: vscode.ExtensionContext) {
+    extensionContext = context;
+}
+
+function getAuthProvider(): AuthProvider {
+    return vscode.workspace.getConfiguration('simpllm').get<AuthProvider>('authProvider', 'none');
+}
+
+/**
+ * Stable pseudonymous id of this machine, sent when not signed in. Signed-in calls use
+ * the id the server assigned to the account instead.
+ */
+export function getUserId(): string {
+    return createHash('sha256').update(`simpllm:machine:${vscode.env.machineId}`).digest('hex').slice(0, 32);
+}
+
+// ============================================
+// AUTHENTICATION
+// ============================================
+
+/**
+ * Bearer token from secret storage. For GitHub/Microsoft a fresh session token replaces
+ * the stored one when `refresh` is set (after the server rejected it).
+ */
+async function getToken(refresh = false): Promise<string | undefined> {
+    const provider = getAuthProvider();
+    if (provider === 'none') return undefined;
+
+    const stored = await extensionContext.secrets.get(TOKEN_SECRET_KEY);
+    if (stored && !refresh) return stored;
+    if (provider === 'token') return stored;
+
+    try {
+        const session = await vscode.authentication.getSession(provider, SESSION_SCOPES[provider], { silent: true });
+        if (session) {
+            await extensionContext.secrets.store(TOKEN_SECRET_KEY, session.accessToken);
+            return session.accessToken;
+        }
+    } catch (error) {
+        console.warn('SimpLLM: could not read authentication session', error);
+    }
+    return stored;
+}
+
+/**
+ * Sign in to the admin server with the configured auth flow
+ */
+export async function signIn(): Promise<boolean> {
+    const provider = getAuthProvider();
+    if (provider === 'none') {
+        const choice = await vscode.window.showInformationMessage(
+            'SimpLLM: No sign-in method configured (simpllm.authProvider is "none").', 'Open Settings'
+        );
+        if (choice) vscode.commands.executeCommand('workbench.action.openSettings', 'simpllm.authProvider');
+        return false;
+    }
+
+    if (provider === 'token') {
+        const token = await vscode.window.showInputBox({
+            title: 'SimpLLM — Sign In',
+            prompt: 'Paste the access token issued by your SimpLLM admin server',
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (!token) return false;
+        await extensionContext.secrets.store(TOKEN_SECRET_KEY, token.trim());
+    } else {
+        try {
+            const session = await vscode.authentication.getSession(provider, SESSION_SCOPES[provider], { createIfNone: true });
+            await extensionContext.secrets.store(TOKEN_SECRET_KEY, session.accessToken);
+        } catch (error) {
+            vscode.window.showWarningMessage(`SimpLLM: Sign-in failed. ${(error as Error).message}`);
+            return false;
+        }
+    }
+
+    // Registrations belong to the previous account; servers are registered with again on the next call
+    await extensionContext.secrets.delete(CLIENTS_SECRET_KEY);
+    authWarningShown = false;
+    vscode.window.showInformationMessage('SimpLLM: Signed in to the admin server.');
+    return true;
+}
+
+export async function signOut() {
+    await extensionContext.secrets.delete(TOKEN_SECRET_KEY);
+    await extensionContext.secrets.delete(CLIENTS_SECRET_KEY);
+    vscode.window.showInformationMessage('SimpLLM: Signed out of the admin server.');
+}
+
+/**
+ * Tell the developer once per session that the server wants credentials
+ */
+function warnUnauthorized() {
+    if (authWarningShown) return;
+    authWarningShown = true;
+    vscode.window.showWarningMessage('SimpLLM: The admin server rejected your credentials. Events are queued until you sign in.', 'Sign In')
+        .then(choice => { if (choice) signIn(); });
+}
+
+// ============================================
+// CLIENT REGISTRATION
+// ============================================
+
+async function loadClients(): Promise<Record<string, RegisteredClient>> {
+    try {
+        return JSON.parse(await extensionContext.secrets.get(CLIENTS_SECRET_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+}
+
+async function saveClient(origin: string, client: RegisteredClient | undefined) {
+    const clients = await loadClients();
+    if (client) clients[origin] = client;
+    else delete clients[origin];
+    await extensionContext.secrets.store(CLIENTS_SECRET_KEY, JSON.stringify(clients));
+}
+
+/**
+ * Register with the server behind `url` ("clients" next to it): a fresh Ed25519 key pair,
+ * with the bearer token sent this once so the server can tie the key to the account.
+ * Undefined if the server refused the token or does not register clients.
+ */
+async function registerClient(url: URL, token: string, timeoutMs: number): Promise<RegisteredClient | undefined> {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const target = new URL('clients', url);
+    const body = JSON.stringify({ publicKey: publicKey.export({ type: 'spki', format: 'der' }).toString('base64') });
+    const response = await send(target, 'POST', body, {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+    }, timeoutMs);
+    // 404: a plain server (e.g. one hosting only the catalog) that takes unsigned calls
+    if (response.status === 401 || response.status === 404) return undefined;
+    if (!response.ok) throw new EndpointError(`${target.host} returned ${response.status} on registration`, response.status);
+
+    const { clientId, userId } = await response.json() as { clientId?: unknown; userId?: unknown };
+    if (typeof clientId !== 'string' || typeof userId !== 'string') {
+        throw new EndpointError(`${target.host} returned an invalid registration`, response.status);
+    }
+    const client = { clientId, userId, privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString() };
+    await saveClient(url.origin, client);
+    return client;
+}
+
+/**
+ * This install's registration with the server behind `url`, registering first if needed.
+ * With `renew` the old registration is dropped and a fresh session token is used.
+ */
+async function getClient(url: URL, timeoutMs: number, renew = false): Promise<RegisteredClient | undefined> {
+    if (renew) await saveClient(url.origin, undefined);
+    const existing = (await loadClients())[url.origin];
+    if (existing) return existing;
+
+    const token = await getToken(renew);
+    if (!token) return undefined;
+    const client = await registerClient(url, token, timeoutMs);
+    if (client || renew) return client;
+
+    // Session tokens expire; pick up a fresh one and try once more
+    const fresh = await getToken(true);
+    return fresh && fresh !== token ? registerClient(url, fresh, timeoutMs) : undefined;
+}
+
+// ============================================
+// REQUESTS
+// ============================================
+
+/**
+ * Headers sent with every call. Registered clients add their id and an Ed25519 signature
+ * over timestamp, nonce, method, path and body hash, so the server can reject forged,
+ * tampered or replayed requests without a shared secret ever crossing the network.
+ */
+function buildHeaders(url: URL, method: string, body: string, client: RegisteredClient | undefined): Record<string, string> {
+    const timestamp = new Date().toISOString();
+    const nonce = randomUUID();
+    const headers: Record<string, string> = {
+        'Accept': 'application/json',
+        'X-SimpLLM-User': client?.userId ?? getUserId(),
+        'X-SimpLLM-Extension-Version': extensionContext.extension.packageJSON.version,
+        'X-SimpLLM-Policy-Version': String(getCentralPolicy()?.version ?? 'local'),
+        'X-SimpLLM-Timestamp': timestamp,
+        'X-SimpLLM-Nonce': nonce
+    };
+    if (body) headers['Content-Type'] = 'application/json';
+    if (client) {
+        const bodyHash = createHash('sha256').update(body).digest('hex');
+        const signed = [timestamp, nonce, method, url.pathname + url.search, bodyHash].join('\n');
+        headers['X-SimpLLM-Client'] = client.clientId;
+        headers['X-SimpLLM-Signature'] = sign(null, Buffer.from(signed), createPrivateKey(client.privateKey)).toString('base64');
+    }
+    return headers;
+}
+
+async function send(url: URL, method: string, body: string, headers: Record<string, string>, timeoutMs: number): Promise<Response> {
+    try {
+        return await fetch(url, {
+            method,
+            headers,
+            body: body || undefined,
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+    } catch (error) {
+        const timedOut = (error as Error).name === 'TimeoutError';
+        throw new EndpointError(timedOut ? `${url.host} timed out after ${timeoutMs}ms` : `${url.host} unreachable: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Call the admin server. Resolves with the response when it is OK, throws EndpointError otherwise.
+ */
+export async function callEndpoint(target: string, request: EndpointRequest = {}): Promise<Response> {
+    let url: URL;
+    try {
+        url = new URL(target);
+    } catch {
+        throw new EndpointError(`invalid endpoint URL "${target}"`, 0);
+    }
+    const method = request.method ?? (request.body === undefined ? 'GET' : 'POST');
+    const body = request.body === undefined ? '' : JSON.stringify(request.body);
+    const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    const signedIn = getAuthProvider() !== 'none';
+    let client = signedIn ? await getClient(url, timeoutMs) : undefined;
+    let response = await send(url, method, body, buildHeaders(url, method, body, client), timeoutMs);
+
+    // The server may have lost the registration or revoked its token: register again once
+    if (response.status === 401 && client) {
+        client = await getClient(url, timeoutMs, true);
+        if (client) response = await send(url, method, body, buildHeaders(url, method, body, client), timeoutMs);
+    }
+
+    if (response.status === 401 && signedIn) warnUnauthorized();
+    if (!response.ok) throw new EndpointError(`${url.host} returned ${response.status}`, response.status);
+    return response;
+}
@@ -0,0 +1,161 @@
+/**
+ * SimpLLM Routing Experiments
+ * Deterministic A/B bucketing of task types across model arms, with per-arm comparison
+ */
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { TaskType } from './models.js';
+import { getArmVotes } from './feedbackStore.js';
+import { getUsageMonths, getUsageLog } from './usage.js';
+
+export interface ExperimentArm {
+    id: string;
+    model: string;
+    weight: number;
+}
+
+export interface Experiment {
+    id: string;
+    taskType: TaskType;
+    arms: ExperimentArm[];
+    bucketBy?: 'user' | 'request';
+    start?: string;     // ISO date, inclusive
+    end?: string;       // ISO date, exclusive
+    enabled?: boolean;
+}
+
+export interface ArmAssignment {
+    experimentId: string;
+    armId: string;
+    modelId: string;
+}
+
+export interface ArmResult {
+    armId: string;
+    modelId: string;
+    requests: number;
+    credits: number;
+    avgLatency: number;
+    positive: number;
+    negative: number;
+    overrides: number;
+    satisfaction: number | null;
+    overrideRate: number | null;
+}
+
+export interface ExperimentResult {
+    experiment: Experiment;
+    active: boolean;
+    arms: ArmResult[];
+    // Two-sided p-value for satisfaction of the first arm vs the best other arm
+    pValue: number | null;
+}
+
+/**
+ * Read experiment definitions, dropping malformed ones
+ */
+export function getExperiments(): Experiment[] {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    return config.get<Experiment[]>('experiments', []).filter(e =>
+        e && e.id && e.taskType && Array.isArray(e.arms) &&
+        e.arms.length >= 2 && e.arms.every(a => a.id && a.model && a.weight > 0)
+    );
+}
+
+export function isExperimentActive(experiment: Experiment, now = new Date()): boolean {
+    if (experiment.enabled === false) return false;
+    if (experiment.start && now < new Date(experiment.start)) return false;
+    if (experiment.end && now >= new Date(experiment.end)) return false;
+    return true;
+}
+
+/**
+ * Stable position in [0, 1) for a bucketing key
+ */
+function bucket(key: string): number {
+    return createHash('sha256').update(key).digest().readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Assign a request to an arm of the active experiment for its task type, if any.
+ * `isAllowed` filters arms the current policy or budget would not permit.
+ */
+export function assignArm(
+    taskType: TaskType,
+    requestId: string,
+    isAllowed: (modelId: string) => boolean
+): ArmAssignment | undefined {
+    const experiment = getExperiments().find(e => e.taskType === taskType && isExperimentActive(e));
+    if (!experiment) return undefined;
+
+    // Per-user bucketing keeps a developer on one arm for the whole experiment
+    const key = experiment.bucketBy === 'request' ? requestId : vscode.env.machineId;
+    const totalWeight = experiment.arms.reduce((total, a) => total + a.weight, 0);
+    let point = bucket(`${experiment.id}:${key}`) * totalWeight;
+
+    for (const arm of experiment.arms) {
+        point -= arm.weight;
+        if (point < 0) {
+            return isAllowed(arm.model)
+                ? { experimentId: experiment.id, armId: arm.id, modelId: arm.model }
+                : undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Two-sided p-value of a two-proportion z-test
+ */
+function twoProportionPValue(s1: number, n1: number, s2: number, n2: number): number | null {
+    if (n1 === 0 || n2 === 0) return null;
+    const pooled = (s1 + s2) / (n1 + n2);
+    const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+    if (se === 0) return null;
+    const z = Math.abs(s1 / n1 - s2 / n2) / se;
+    return 2 * (1 - normalCdf(z));
+}
+
+// Abramowitz-Stegun approximation of the standard normal CDF
+function normalCdf(z: number): number {
+    const t = 1 / (1 + 0.2316419 * z);
+    const d = 0.3989423 * Math.exp(-z * z / 2);
+    return 1 - d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+}
+
+/**
+ * Compare arms of every experiment using the usage ledger and indexed feedback
+ */
+export function getExperimentResults(): ExperimentResult[] {
+    const usage = getUsageMonths().flatMap(month => getUsageLog(month));
+
+    return getExperiments().map(experiment => {
+        const arms = experiment.arms.map(arm => {
+            const requests = usage.filter(u => u.experiment === experiment.id && u.arm === arm.id);
+            const { positive, negative, overrides } = getArmVotes(experiment.id, arm.id);
+            const latencies = requests.filter(u => u.responseTime !== undefined).map(u => u.responseTime!);
+            return {
+                armId: arm.id,
+                modelId: arm.model,
+                requests: requests.length,
+                credits: requests.reduce((total, u) => total + u.creditMultiplier, 0),
+                avgLatency: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : 0,
+                positive,
+                negative,
+                overrides,
+                satisfaction: positive + negative > 0 ? positive / (positive + negative) : null,
+                overrideRate: requests.length > 0 ? overrides / requests.length : null
+            };
+        });
+
+        // Control (first arm) against the best-rated challenger
+        const [control, ...challengers] = arms;
+        const challenger = challengers.sort((a, b) => (b.satisfaction ?? -1) - (a.satisfaction ?? -1))[0];
+        const pValue = twoProportionPValue(
+            control.positive, control.positive + control.negative,
+            challenger.positive, challenger.positive + challenger.negative
+        );
+
+        return { experiment, active: isExperimentActive(experiment), arms, pValue };
+    });
+}
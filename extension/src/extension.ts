@@ -3,36 +3,89 @@ import {
     MODELS,
     ModelDefinition,
     TaskType,
+    Classification,
+    Complexity,
     getModel,
-    AdminConfig,
-    DEFAULT_ADMIN_CONFIG,
-    CreditTier,
-    DEFAULT_TASK_ROUTING,
-    TASK_TYPES_LIST
+    TASK_TYPES_LIST,
+    isTierWithin,
+    lowerTier,
+    getBestModelForTask,
+    fitsContext,
+    getCheapestModelThatFits
 } from './models.js';
 import {
     initFeedback,
     recordFeedback,
     recordOverride,
     generateRequestId,
-    showFeedbackButtons
+    showFeedbackButtons,
+    RequestDetails
 } from './feedback.js';
 import { openAdminPanel } from './admin.js';
+import { initUsage, recordUsage, getUsageStats } from './usage.js';
+import { getBudgetStatus } from './budget.js';
+import { countEachMessage, countTextTokens, estimateMessageTokens, estimateTokens } from './tokens.js';
+import { resolveReferences, formatReferences, summarizeReferences, ResolvedReference } from './references.js';
+import { buildConversation, summarizeHistory, lastTaskType } from './conversation.js';
+import { initAdaptive, getLearnedModel, syncLearnedRoutingSnapshot } from './adaptive.js';
+import { assignArm, ArmAssignment } from './experiments.js';
+import { localClassify, LocalSignals } from './localClassifier.js';
+import {
+    initClassifierCache,
+    fingerprint,
+    getCachedClassification,
+    cacheClassification,
+    getCacheStats
+} from './classifierCache.js';
+import { initCatalog, reloadCatalog, WORKSPACE_CATALOG_PATH } from './catalog.js';
+import { reconcileAvailability, markAvailability } from './availability.js';
+import {
+    loadAdminConfig,
+    getAdminConfig,
+    getEffectivePolicy,
+    getRoutingChain,
+    PolicyLayer,
+    POLICY_LAYER_LABELS
+} from './policy.js';
+import {
+    initCentralPolicy,
+    refreshCentralPolicy,
+    getCentralPolicyStatus,
+    MANAGED_SETTINGS,
+    POLICY_REFRESH_MS
+} from './centralPolicy.js';
+import { initOutbox, flushOutbox, getOutboxStats } from './outbox.js';
+import { getStoreInfo } from './feedbackStore.js';
+import { initEndpoint, signIn, signOut } from './endpoint.js';
+import {
+    initCredits,
+    requestExtraCredits,
+    pollCreditDecisions,
+    getCreditRequests,
+    CreditRequestStatus,
+    CREDIT_POLL_MS
+} from './credits.js';
+import { exportData, importData } from './dataExport.js';
 
 // ============================================
 // SESSION STATE
 // ============================================
-const sessionStats = {
-    requestCount: 0,
-    tokenCount: { input: 0, output: 0 },
-    creditsByModel: {} as Record<string, number>,
-    taskTypes: {} as Record<string, number>,
-    totalCreditsUsed: 0
-};
-
 let statusBarItem: vscode.StatusBarItem;
 let forceModelId: string | null = null;
-let adminConfig: AdminConfig = DEFAULT_ADMIN_CONFIG;
+
+// Requests waiting at a cost preview, by request id; the re-submitted prompt is plain
+// text, so the original attachments are kept here, along with the routing it was shown
+interface GatedRequest {
+    prompt: string;
+    promptReferences: readonly vscode.ChatPromptReference[];
+    command?: 'compare';
+    decision?: RoutingDecision;
+}
+const MAX_GATED_REQUESTS = 20;
+const gatedRequests = new Map<string, GatedRequest>();
+
+// Answer to a cost confirmation, consumed by the re-submitted request
+let confirmedRoute: (GatedRequest & { requestId: string; modelId: string }) | null = null;
 
 // Last request info for quick retry
 let lastRequest: {
@@ -40,15 +93,37 @@ let lastRequest: {
     requestId: string;
     modelId: string;
     taskType: string;
+    experiment?: ArmAssignment;
 } | null = null;
 
+// Recent answers, kept so a retry can re-run them and diff the result
+interface AnsweredRequest {
+    prompt: string;
+    promptReferences: readonly vscode.ChatPromptReference[];
+    modelId: string;
+    taskType: string;
+    output: string;
+    experiment?: ArmAssignment;
+}
+const MAX_RECENT_ANSWERS = 20;
+const recentAnswers = new Map<string, AnsweredRequest>();
+
+// Comparisons already voted on, by the request id of their first answer
+const votedComparisons = new Set<string>();
+
+// Model picked for a retry, consumed by the re-submitted "/retry" request
+let pendingRetry: { requestId: string; modelId: string } | null = null;
+
 // ============================================
 // CLASSIFICATION PROMPT (Two-Pass System)
 // ============================================
 const CLASSIFIER_SYSTEM_PROMPT = `You are a prompt classifier. Your ONLY job is to analyze the user's request and classify it.
 
-RESPOND WITH EXACTLY ONE LINE in this format:
+RESPOND WITH EXACTLY FOUR LINES in this format:
 TASK:<type>
+SECONDARY:<type or none>
+CONFIDENCE:<0.0-1.0>
+COMPLEXITY:<low|medium|high>
 
 Where <type> is one of: autocomplete, simple, function, algorithm, test, debug, refactor, architecture, security, documentation, conversion, review, long-context
 
@@ -65,10 +140,25 @@ Classification rules:
 - documentation: comments, README, API docs, explanations
 - conversion: language conversion, migration, framework change
 - review: code review, best practices, improvements
-- long-context: large codebase analysis, multi-file operations
+- long-context: large codebase analysis, multi-file operations, several or large attached files
+
+If recent conversation is provided, classify ONLY the latest prompt. A follow-up that refers back
+to earlier turns ("now write tests for that", "make it faster") is classified by what it asks for,
+using the earlier turns to understand what "that" is.
+
+SECONDARY is the next most likely type, or none. CONFIDENCE is how sure you are of TASK.
+COMPLEXITY is how hard the request is: low (a quick answer or small edit), medium (typical work),
+high (deep reasoning, many components, or critical code).
 
 DO NOT answer the question. DO NOT write code. ONLY classify.
-Example: TASK:debug`;
+Example:
+TASK:debug
+SECONDARY:test
+CONFIDENCE:0.8
+COMPLEXITY:medium`;
+
+// Below this confidence the cheaper of the primary and secondary task's models is used
+const LOW_CONFIDENCE = 0.6;
 
 // ============================================
 // CORE FUNCTIONS
@@ -77,12 +167,23 @@ Example: TASK:debug`;
 /**
  * Two-pass classification using the classifier model
  */
-async function classifyPrompt(prompt: string, token: vscode.CancellationToken): Promise<TaskType> {
+async function classifyPrompt(
+    prompt: string,
+    token: vscode.CancellationToken,
+    context: { attachments?: string; history?: string; signals?: LocalSignals } = {}
+): Promise<Classification> {
     const config = vscode.workspace.getConfiguration('simpllm');
-    const classifierModelId = config.get<string>('classifierModel', 'gpt-4o');
+    const signals = context.signals ?? {};
+
+    // Air-gapped mode: no classifier calls at all
+    if (config.get<string>('classifierMode', 'model') === 'local') {
+        return localClassify(prompt, signals);
+    }
+
+    const classifierModelId = getAdminConfig().classifierModel;
     const classifierDef = getModel(classifierModelId);
 
-    if (!classifierDef) return fallbackClassify(prompt);
+    if (!classifierDef) return fallbackClassification(prompt, signals);
 
     try {
         const models = await vscode.lm.selectChatModels({
@@ -90,11 +191,15 @@ async function classifyPrompt(prompt: string, token: vscode.CancellationToken):
             family: classifierDef.family
         });
 
-        if (models.length === 0) return fallbackClassify(prompt);
+        if (models.length === 0) return fallbackClassification(prompt, signals);
 
         const classifier = models[0];
+        const recent = context.history ? '\n\nRecent conversation:\n' + context.history : '';
+        const attached = context.attachments ? '\n\nAttached context: ' + context.attachments : '';
         const messages = [
-            vscode.LanguageModelChatMessage.User(CLASSIFIER_SYSTEM_PROMPT + '\n\nClassify this prompt:\n' + prompt)
+            vscode.LanguageModelChatMessage.User(
+                CLASSIFIER_SYSTEM_PROMPT + recent + '\n\nClassify this prompt:\n' + prompt + attached
+            )
         ];
 
         const response = await classifier.sendRequest(messages, {}, token);
@@ -103,39 +208,41 @@ async function classifyPrompt(prompt: string, token: vscode.CancellationToken):
             result += chunk;
         }
 
-        // Parse classification result
-        const match = result.match(/TASK:(\S+)/i);
-        if (match) {
-            const taskType = match[1].toLowerCase() as TaskType;
-            if (TASK_TYPES_LIST.includes(taskType)) {
-                return taskType;
-            }
-        }
-
-        return fallbackClassify(prompt);
+        return parseClassification(result) || fallbackClassification(prompt, signals, result);
     } catch {
-        return fallbackClassify(prompt);
+        return fallbackClassification(prompt, signals);
     }
 }
 
 /**
- * Keyword-based fallback classifier (no API call)
+ * Parse the classifier's TASK/SECONDARY/CONFIDENCE/COMPLEXITY lines.
+ * Only TASK is required; missing fields get neutral defaults.
  */
-function fallbackClassify(prompt: string): TaskType {
-    const p = prompt.toLowerCase();
-    if (/test|spec|jest|pytest|unit|mock/.test(p)) return 'test';
-    if (/debug|hata|error|bug|fix|crash/.test(p)) return 'debug';
-    if (/security|güvenlik|vulnerability|xss|sql injection/.test(p)) return 'security';
-    if (/architecture|mimari|design|microservice|scale/.test(p)) return 'architecture';
-    if (/refactor|yeniden yaz|rewrite|clean|solid/.test(p)) return 'refactor';
-    if (/algorithm|algoritma|sort|search|recursive/.test(p)) return 'algorithm';
-    if (/review|incele|check|best practice/.test(p)) return 'review';
-    if (/document|readme|jsdoc|açıkla|explain/.test(p)) return 'documentation';
-    if (/convert|dönüştür|migrate|transform/.test(p)) return 'conversion';
-    if (/fonksiyon|function|method|class|write|yaz/.test(p)) return 'function';
-    if (/basit|simple|import|typo|renk/.test(p)) return 'simple';
-    if (/tamamla|complete|finish/.test(p)) return 'autocomplete';
-    return 'function';
+function parseClassification(raw: string): Classification | undefined {
+    const field = (name: string) => raw.match(new RegExp(`${name}:\\s*(\\S+)`, 'i'))?.[1].toLowerCase();
+
+    const taskType = field('TASK') as TaskType | undefined;
+    if (!taskType || !TASK_TYPES_LIST.includes(taskType)) return undefined;
+
+    const secondary = field('SECONDARY') as TaskType | undefined;
+    const confidence = parseFloat(field('CONFIDENCE') || '');
+    const complexity = field('COMPLEXITY') as Complexity | undefined;
+
+    return {
+        taskType,
+        secondary: secondary && secondary !== taskType && TASK_TYPES_LIST.includes(secondary) ? secondary : undefined,
+        confidence: isNaN(confidence) ? 0.5 : Math.min(1, Math.max(0, confidence)),
+        complexity: complexity && ['low', 'medium', 'high'].includes(complexity) ? complexity : 'medium',
+        source: 'classifier',
+        raw
+    };
+}
+
+/**
+ * Local scoring when the classifier model is unavailable or its output unusable
+ */
+function fallbackClassification(prompt: string, signals: LocalSignals, raw?: string): Classification {
+    return { ...localClassify(prompt, signals), source: 'fallback', raw };
 }
 
 /**
@@ -146,7 +253,9 @@ async function selectCopilotModel(modelDef: ModelDefinition): Promise<vscode.Lan
         let models = await vscode.lm.selectChatModels({ vendor: 'copilot', family: modelDef.family });
         if (models.length > 0) return models[0];
 
-        // Fallback chain
+        // Fallback chain; routing already skips unavailable models, so this only
+        // runs before Copilot has reported its models or right after they change
+        console.warn(`SimpLLM: ${modelDef.family} not offered by Copilot, falling back`);
         const fallbacks = ['gpt-4o', 'gpt-4.1', 'gpt-5-mini'];
         for (const fb of fallbacks) {
             const fbDef = getModel(fb);
@@ -166,57 +275,182 @@ async function selectCopilotModel(modelDef: ModelDefinition): Promise<vscode.Lan
 }
 
 /**
- * Check model against admin policy
+ * Check model against admin policy and, unless ignored, the budget tier cap
  */
-function isModelAllowed(modelDef: ModelDefinition): boolean {
-    const config = vscode.workspace.getConfiguration('simpllm');
-    const blockedModels = config.get<string[]>('blockedModels', []);
-    const maxTier = config.get<string>('maxCreditTier', 'premium') as CreditTier;
-    if (blockedModels.includes(modelDef.id)) return false;
-    const tierOrder: CreditTier[] = ['free', 'cheap', 'standard', 'premium'];
-    return tierOrder.indexOf(modelDef.creditTier) <= tierOrder.indexOf(maxTier);
+function isModelAllowed(modelDef: ModelDefinition, ignoreBudget = false): boolean {
+    const policy = getEffectivePolicy();
+    let maxTier = policy.maxCreditTier.value;
+    if (modelDef.available === false) return false;
+    if (policy.blockedModels.includes(modelDef.id)) return false;
+    if (policy.allowedModels.value && !policy.allowedModels.value.includes(modelDef.id)) return false;
+    if (!ignoreBudget) {
+        const { tierCap } = getBudgetStatus();
+        if (tierCap) maxTier = lowerTier(maxTier, tierCap);
+    }
+    return isTierWithin(modelDef.creditTier, maxTier);
 }
 
 /**
- * Get recommended model for task type (respecting admin overrides)
+ * Replace a model the budget no longer allows with the best allowed model for the task
  */
-function getModelForTask(taskType: TaskType): ModelDefinition {
-    const config = vscode.workspace.getConfiguration('simpllm');
-    const customRouting = config.get<Record<string, string>>('taskRouting', {});
+function applyBudgetCap(
+    modelDef: ModelDefinition,
+    taskType: TaskType
+): { model: ModelDefinition; downgradedFrom?: ModelDefinition } {
+    if (isModelAllowed(modelDef)) return { model: modelDef };
+    const substitute = getBestModelForTask(taskType, MODELS.filter(m => isModelAllowed(m)));
+    return { model: substitute || getFallbackModel(taskType), downgradedFrom: modelDef };
+}
+
+/**
+ * Use classifier confidence and complexity to avoid overspending: low-complexity
+ * requests stay off 3x models, low-confidence ones take the cheaper of the
+ * primary and secondary task's models
+ */
+function applyClassification(
+    classification: Classification,
+    modelDef: ModelDefinition
+): { model: ModelDefinition; note?: string } {
+    let model = modelDef;
+    let note: string | undefined;
+
+    if (classification.confidence < LOW_CONFIDENCE && classification.secondary) {
+        const alternative = getModelForTask(classification.secondary).model;
+        if (alternative.creditMultiplier < model.creditMultiplier) {
+            model = alternative;
+            note = `low confidence, cheaper ${classification.secondary} model`;
+        }
+    }
+
+    if (classification.complexity === 'low' && !isTierWithin(model.creditTier, 'standard')) {
+        const candidates = MODELS.filter(m => isModelAllowed(m) && isTierWithin(m.creditTier, 'standard'));
+        const capped = getBestModelForTask(classification.taskType, candidates);
+        if (capped) {
+            model = capped;
+            note = `low complexity, not worth ${modelDef.creditMultiplier}x`;
+        }
+    }
+
+    return { model, note };
+}
+
+interface RoutedModel {
+    model: ModelDefinition;
+    source: PolicyLayer | 'fallback';
+    downgradedFrom?: ModelDefinition;
+    skipped: string[];  // Routing entries that were passed over, for /explain
+}
+
+/**
+ * Get recommended model for task type: the first allowed entry of the team,
+ * department, global and default routing (then the budget cap)
+ */
+function getModelForTask(taskType: TaskType): RoutedModel {
+    const skipped: string[] = [];
 
-    // Admin override first
-    if (customRouting[taskType]) {
-        const model = getModel(customRouting[taskType]);
-        if (model && isModelAllowed(model)) return model;
+    for (const { value: modelId, layer } of getRoutingChain(taskType)) {
+        const model = getModel(modelId);
+        if (model && isModelAllowed(model, true)) return { ...applyBudgetCap(model, taskType), source: layer, skipped };
+        skipped.push(`${POLICY_LAYER_LABELS[layer].toLowerCase()} routing → ${modelId} (${model ? unavailableReason(model) : 'not in model catalog'})`);
     }
 
-    // Default routing
-    const defaultId = DEFAULT_TASK_ROUTING[taskType];
-    const model = getModel(defaultId);
-    if (model && isModelAllowed(model)) return model;
+    return { model: getFallbackModel(taskType), source: 'fallback', skipped };
+}
 
-    // Fallback to free model
-    return getModel('gpt-4o')!;
+/**
+ * Why isModelAllowed rejected a model, for traces and warnings
+ */
+function unavailableReason(modelDef: ModelDefinition): string {
+    if (modelDef.available === false) return 'not available in Copilot';
+    const { allowedModels } = getEffectivePolicy();
+    if (allowedModels.value && !allowedModels.value.includes(modelDef.id)) {
+        return `not in the ${POLICY_LAYER_LABELS[allowedModels.layer].toLowerCase()} allowed models`;
+    }
+    return 'blocked or above max tier';
+}
+
+/**
+ * Free model used when routing finds nothing allowed: GPT-4o if Copilot offers it,
+ * else the best available free model (the catalog always keeps at least one)
+ */
+function getFallbackModel(taskType: TaskType): ModelDefinition {
+    const gpt4o = getModel('gpt-4o');
+    if (gpt4o && gpt4o.available !== false) return gpt4o;
+    const free = MODELS.filter(m => m.creditMultiplier === 0);
+    return getBestModelForTask(taskType, free.filter(m => m.available !== false)) ?? gpt4o ?? free[0];
+}
+
+/**
+ * Route away from a model whose context window cannot hold the request
+ */
+function applyContextLimit(
+    modelDef: ModelDefinition,
+    taskType: TaskType,
+    contextTokens: number
+): { model: ModelDefinition; resizedFrom?: ModelDefinition } {
+    if (fitsContext(modelDef, contextTokens)) return { model: modelDef };
+    const allowed = MODELS.filter(m => isModelAllowed(m));
+    const model = getCheapestModelThatFits(taskType, allowed, contextTokens)
+        // Nothing fits: take the largest window and let history trimming do the rest
+        || [...allowed].sort((a, b) => b.capabilities.contextWindow - a.capabilities.contextWindow)[0];
+    if (!model || model.capabilities.contextWindow <= modelDef.capabilities.contextWindow) {
+        return { model: modelDef };
+    }
+    return { model, resizedFrom: modelDef };
+}
+
+/**
+ * Drop the oldest history messages until the request fits the model's input limit.
+ * Returns the remaining input token count and how many messages were dropped.
+ */
+async function trimToFit(
+    model: vscode.LanguageModelChat,
+    messages: vscode.LanguageModelChatMessage[],
+    historyStart: number,
+    token: vscode.CancellationToken
+): Promise<{ inputTokens: number; dropped: number }> {
+    const counts = await countEachMessage(model, messages, token);
+    let inputTokens = counts.reduce((a, b) => a + b, 0);
+    let dropped = 0;
+
+    while (model.maxInputTokens > 0 && inputTokens > model.maxInputTokens && messages.length > historyStart + 1) {
+        messages.splice(historyStart, 1);
+        inputTokens -= counts.splice(historyStart, 1)[0];
+        dropped++;
+    }
+
+    return { inputTokens, dropped };
 }
 
 /**
  * Update status bar with credit budget
  */
 function updateStatusBar(model?: ModelDefinition) {
-    const config = vscode.workspace.getConfiguration('simpllm');
-    const monthlyBudget = config.get<number>('monthlyBudget', 300);
-    const usedPercent = monthlyBudget > 0 ? Math.min(100, (sessionStats.totalCreditsUsed / monthlyBudget) * 100) : 0;
+    const { monthlyBudget: { value: monthlyBudget }, approvedCredits } = getEffectivePolicy();
+    const usage = getUsageStats();
+    const usedPercent = monthlyBudget > 0 ? Math.min(100, (usage.totalCreditsUsed / monthlyBudget) * 100) : 100;
+
+    // Which policy is in force
+    const central = getCentralPolicyStatus();
+    const policyLine = central.policy
+        ? `${central.policy.locked ? '$(lock) Locked policy' : 'Central policy'} v${central.policy.version}` +
+          (central.source === 'cache' ? ' (cached, server unreachable)' : '')
+        : 'Policy: local settings';
 
     if (model) {
         statusBarItem.text = `$(sparkle) ${model.name} · ${usedPercent.toFixed(0)}%`;
         statusBarItem.tooltip = new vscode.MarkdownString(
             `**SimpLLM**\n\n` +
             `Model: ${model.name} (${model.creditMultiplier}x)\n\n` +
-            `Budget: ${sessionStats.totalCreditsUsed.toFixed(1)} / ${monthlyBudget} credits (${usedPercent.toFixed(0)}%)\n\n` +
-            `Requests: ${sessionStats.requestCount}`
+            `Budget: ${usage.totalCreditsUsed.toFixed(1)} / ${monthlyBudget} credits (${usedPercent.toFixed(0)}%)` +
+            (approvedCredits > 0 ? `, incl. +${approvedCredits} approved` : '') + `\n\n` +
+            `Requests this month: ${usage.requestCount}\n\n` +
+            policyLine,
+            true
         );
     } else {
         statusBarItem.text = `$(sparkle) SimpLLM · ${usedPercent.toFixed(0)}%`;
+        statusBarItem.tooltip = new vscode.MarkdownString(`**SimpLLM**\n\n${policyLine}`, true);
     }
 
     // Color warning for budget
@@ -229,6 +463,398 @@ function updateStatusBar(model?: ModelDefinition) {
     }
 }
 
+// ============================================
+// ROUTING PIPELINE
+// ============================================
+
+// Shorthands accepted as "@opus", "@sonnet4.5", ... in the prompt
+const FORCE_MODEL_PATTERNS: Record<string, string> = {
+    'opus': 'claude-opus-4.5', 'sonnet4.5': 'claude-sonnet-4.5', 'sonnet': 'claude-sonnet-4',
+    'geminipro': 'gemini-2.5-pro', 'gpt5.2': 'gpt-5.2', 'gpt5.1': 'gpt-5.1',
+    'gpt5': 'gpt-5', 'gpt4o': 'gpt-4o', 'gpt4.1': 'gpt-4.1',
+    'haiku': 'claude-haiku-4.5', 'flash': 'gemini-3-flash', 'codexmini': 'gpt-5.1-codex-mini'
+};
+
+interface PreparedRequest {
+    cleanPrompt: string;
+    forcedId: string | null;
+    references: ResolvedReference[];
+    messages: vscode.LanguageModelChatMessage[];
+    historyStart: number;
+    contextTokens: number;
+    signals: LocalSignals;
+}
+
+interface RoutingDecision {
+    taskType: TaskType;
+    taskLabel: string;  // Task type with confidence and complexity, for reasons
+    classification?: Classification;
+    model: ModelDefinition;
+    reason: string;
+    downgradedFrom?: ModelDefinition;
+    experiment?: ArmAssignment;
+    warnings: string[];
+    trace: string[];    // Step-by-step record of the decision, shown by /explain
+}
+
+/**
+ * Strip an "@model" shorthand from the prompt and resolve attachments and history
+ */
+async function prepareRequest(
+    prompt: string,
+    promptReferences: readonly vscode.ChatPromptReference[],
+    history: vscode.ChatContext['history'],
+    forcedId: string | null
+): Promise<PreparedRequest> {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    let cleanPrompt = prompt;
+
+    const forceMatch = prompt.match(/@(\w[\w.-]*)/);
+    if (forceMatch) {
+        const key = forceMatch[1].toLowerCase().replace(/-/g, '');
+        // Shorthands, or any catalog id ("@gpt-5.3")
+        const matchedId = getModel(FORCE_MODEL_PATTERNS[key] ?? forceMatch[1])?.id;
+        if (matchedId) {
+            forcedId = matchedId;
+            cleanPrompt = prompt.replace(forceMatch[0], '').trim();
+        }
+    }
+
+    // Resolve #file / #selection / #editor attachments
+    const references = await resolveReferences(promptReferences);
+
+    // Build messages: preamble, history in chronological order, then the current prompt
+    const { messages, historyStart } = buildConversation(cleanPrompt, history, {
+        preamble: config.get<string>('systemPrompt', ''),
+        referenceContext: formatReferences(references)
+    });
+
+    return {
+        cleanPrompt,
+        forcedId,
+        references,
+        messages,
+        historyStart,
+        contextTokens: estimateMessageTokens(messages),
+        signals: {
+            fileReferences: references.length,
+            attachmentTokens: references.reduce((total, r) => total + estimateTokens(r.content), 0)
+        }
+    };
+}
+
+/**
+ * Run classification and every routing rule, recording each step.
+ * A dry run (for /explain) leaves the classification cache untouched.
+ */
+async function routeRequest(
+    prepared: PreparedRequest,
+    history: vscode.ChatContext['history'],
+    requestId: string,
+    token: vscode.CancellationToken,
+    options: { dryRun?: boolean; onProgress?: (message: string) => void } = {}
+): Promise<RoutingDecision> {
+    const { cleanPrompt, forcedId, references, contextTokens, signals } = prepared;
+    const trace: string[] = [];
+    const warnings: string[] = [];
+    let taskType: TaskType;
+    let selectedModelDef: ModelDefinition;
+    let reason: string;
+    let downgradedFrom: ModelDefinition | undefined;
+    let experiment: ArmAssignment | undefined;
+    let classification: Classification | undefined;
+    let taskLabel: string;
+
+    // ---- PASS 1: Classification ----
+    if (forcedId) {
+        // Manual override
+        selectedModelDef = getModel(forcedId)!;
+        taskType = localClassify(cleanPrompt, signals).taskType; // Quick classify, don't waste API call
+        taskLabel = taskType;
+        reason = `Manual: ${selectedModelDef.name}`;
+        trace.push(`Forced model **${selectedModelDef.name}**; classifier skipped, local classifier says \`${taskType}\``);
+    } else {
+        // Two-pass: classify first (unless cached), then route. Only classifier-model results
+        // are cached, keyed by that model; the local classifier is cheaper than a lookup.
+        const attachments = summarizeReferences(references);
+        const localMode = vscode.workspace.getConfiguration('simpllm').get<string>('classifierMode', 'model') === 'local';
+        const cacheKey = fingerprint(cleanPrompt, `${getAdminConfig().classifierModel}\n${attachments}\n${lastTaskType(history) || ''}`);
+        const cached = localMode ? undefined : getCachedClassification(cacheKey, options.dryRun);
+        if (cached) {
+            classification = cached;
+            trace.push('Classification served from cache (no classifier call)');
+        } else {
+            options.onProgress?.('Analyzing request...');
+            classification = await classifyPrompt(cleanPrompt, token, {
+                attachments,
+                history: summarizeHistory(history),
+                signals
+            });
+            if (classification.source === 'classifier' && !options.dryRun) {
+                await cacheClassification(cacheKey, classification);
+            }
+            const sourceLabel = {
+                classifier: 'Classifier model',
+                local: 'Local classifier (classifierMode = local)',
+                fallback: 'Classifier unavailable or unparseable, local fallback'
+            }[classification.source];
+            trace.push(sourceLabel + (classification.raw ? `, raw output:\n\n\`\`\`\n${classification.raw.trim()}\n\`\`\`` : ''));
+        }
+        taskType = classification.taskType;
+        taskLabel = `${taskType} (${(classification.confidence * 100).toFixed(0)}%, ${classification.complexity})`;
+        trace.push(
+            `Parsed task \`${taskType}\`` +
+            (classification.secondary ? `, secondary \`${classification.secondary}\`` : '') +
+            `, confidence ${(classification.confidence * 100).toFixed(0)}%, complexity ${classification.complexity}`
+        );
+
+        const routed = getModelForTask(taskType);
+        selectedModelDef = routed.model;
+        reason = `${taskLabel} → ${selectedModelDef.name}`;
+        downgradedFrom = routed.downgradedFrom;
+        for (const skip of routed.skipped) trace.push(`Skipped ${skip}`);
+        trace.push(
+            `${routed.source === 'fallback' ? 'Fallback' : `${POLICY_LAYER_LABELS[routed.source]} routing`} → ` +
+            `**${(routed.downgradedFrom || routed.model).name}**`
+        );
+        if (routed.downgradedFrom) {
+            trace.push(`Budget cap (${getBudgetStatus().percent.toFixed(0)}% used, max tier ${getBudgetStatus().tierCap}) → **${routed.model.name}**`);
+        }
+
+        // Confidence and complexity can only make the choice cheaper
+        const refined = applyClassification(classification, selectedModelDef);
+        if (refined.note) {
+            selectedModelDef = refined.model;
+            reason = `${taskLabel} → ${selectedModelDef.name} · ${refined.note}`;
+            trace.push(`Classification refinement (${refined.note}) → **${selectedModelDef.name}**`);
+        }
+
+        // Learned preferences refine default routing; explicit admin, department and team routing is left alone
+        if (routed.source === 'default' && !refined.note) {
+            const learned = getLearnedModel(taskType, selectedModelDef, MODELS.filter(m => isModelAllowed(m)));
+            if (learned) {
+                selectedModelDef = learned.model;
+                reason = `${taskLabel} → ${selectedModelDef.name} · ${learned.note}`;
+                trace.push(`Adaptive routing (${learned.note}) → **${selectedModelDef.name}**`);
+            }
+        }
+
+        // A/B experiments on this task type take precedence over learned routing
+        experiment = assignArm(taskType, requestId, id => {
+            const model = getModel(id);
+            return !!model && isModelAllowed(model);
+        });
+        if (experiment) {
+            selectedModelDef = getModel(experiment.modelId)!;
+            reason = `${taskLabel} → ${selectedModelDef.name} · experiment ${experiment.experimentId} (arm ${experiment.armId})`;
+            trace.push(`Experiment \`${experiment.experimentId}\` arm \`${experiment.armId}\` → **${selectedModelDef.name}**`);
+        }
+
+        // Make sure the routed model can hold prompt + history
+        const sized = applyContextLimit(selectedModelDef, taskType, contextTokens);
+        if (sized.resizedFrom) {
+            selectedModelDef = sized.model;
+            experiment = undefined; // Not the arm's model anymore, keep it out of the comparison
+            reason = `${taskLabel} → ${selectedModelDef.name} · context ~${Math.round(contextTokens / 1000)}K tokens exceeds ${sized.resizedFrom.name}`;
+            trace.push(`Context ~${Math.round(contextTokens / 1000)}K tokens exceeds ${sized.resizedFrom.name}'s window → **${selectedModelDef.name}**`);
+        }
+    }
+
+    // Check policy
+    if (!isModelAllowed(selectedModelDef, true)) {
+        const fallback = getFallbackModel(taskType);
+        warnings.push(selectedModelDef.available === false
+            ? `⚠️ **${selectedModelDef.name}** is not available in Copilot. Using ${fallback.name}.`
+            : `⚠️ **${selectedModelDef.name}** is restricted. Using fallback.`);
+        trace.push(`Policy check: ${selectedModelDef.name} is ${unavailableReason(selectedModelDef)} → **${fallback.name}**`);
+        selectedModelDef = fallback;
+    } else if (!isModelAllowed(selectedModelDef)) {
+        const capped = applyBudgetCap(selectedModelDef, taskType);
+        selectedModelDef = capped.model;
+        downgradedFrom = capped.downgradedFrom;
+        reason = `${taskLabel} → ${selectedModelDef.name}`;
+        trace.push(`Policy check: budget cap → **${selectedModelDef.name}**`);
+    } else {
+        trace.push(`Policy check: ${selectedModelDef.name} allowed`);
+    }
+    if (downgradedFrom) {
+        reason += ` · downgraded from ${downgradedFrom.name} (budget ${getBudgetStatus().percent.toFixed(0)}%)`;
+    }
+
+    return { taskType, taskLabel, classification, model: selectedModelDef, reason, downgradedFrom, experiment, warnings, trace };
+}
+
+// ============================================
+// COST CONFIRMATION
+// ============================================
+
+/**
+ * Multiplier above which the developer must confirm, per task type if the admin set one
+ */
+function getConfirmThreshold(taskType: TaskType): number {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    const byTask = config.get<Record<string, number>>('confirmAboveMultiplierByTask', {});
+    return byTask[taskType] ?? config.get<number>('confirmAboveMultiplier', 1);
+}
+
+function needsConfirmation(modelDef: ModelDefinition, taskType: TaskType): boolean {
+    return modelDef.creditMultiplier > getConfirmThreshold(taskType);
+}
+
+/**
+ * Best allowed model for the task that does not need confirmation
+ */
+function getCheaperAlternative(modelDef: ModelDefinition, taskType: TaskType): ModelDefinition | undefined {
+    const threshold = getConfirmThreshold(taskType);
+    const candidates = MODELS.filter(m =>
+        m.id !== modelDef.id && m.creditMultiplier <= threshold && isModelAllowed(m));
+    return getBestModelForTask(taskType, candidates);
+}
+
+function rememberGatedRequest(requestId: string, gated: GatedRequest) {
+    gatedRequests.set(requestId, gated);
+    if (gatedRequests.size > MAX_GATED_REQUESTS) {
+        gatedRequests.delete(gatedRequests.keys().next().value!);
+    }
+}
+
+/**
+ * Stream the cost preview with proceed / cheaper / cancel buttons instead of running Pass 2
+ */
+function showCostPreview(
+    stream: vscode.ChatResponseStream,
+    requestId: string,
+    gated: GatedRequest,
+    decision: RoutingDecision
+): vscode.ChatResult {
+    rememberGatedRequest(requestId, gated);
+    const selected = decision.model;
+    const alternative = getCheaperAlternative(selected, decision.taskType);
+    const budget = getBudgetStatus();
+    const remaining = Math.max(0, budget.budget - budget.used);
+
+    stream.markdown(`### 💳 Confirm premium model\n\n`);
+    stream.markdown(`| | |\n|---|---|\n`);
+    stream.markdown(`| Model | **${selected.name}** (${selected.creditMultiplier}x) |\n`);
+    stream.markdown(`| Why | ${decision.reason} |\n`);
+    stream.markdown(`| Remaining budget | ${remaining.toFixed(1)} → ${Math.max(0, remaining - selected.creditMultiplier).toFixed(1)} |\n`);
+    if (alternative) {
+        stream.markdown(`| Cheaper alternative | ${alternative.name} (${alternative.creditMultiplier}x) |\n`);
+    }
+    stream.markdown('\n');
+
+    stream.button({
+        command: 'simpllm.confirmRoute',
+        title: `✅ Proceed with ${selected.name} (${selected.creditMultiplier}x)`,
+        arguments: [requestId, selected.id]
+    });
+    if (alternative) {
+        stream.button({
+            command: 'simpllm.confirmRoute',
+            title: `💡 Use ${alternative.name} (${alternative.creditMultiplier}x)`,
+            arguments: [requestId, alternative.id]
+        });
+    }
+    stream.button({
+        command: 'simpllm.confirmRoute',
+        title: '✖ Cancel',
+        arguments: [requestId, null]
+    });
+
+    return { metadata: { pendingConfirmation: true, taskType: decision.taskType, model: selected.name } };
+}
+
+/**
+ * Re-submit a gated prompt with the developer's choice, or drop it
+ */
+async function confirmRoute(requestId: string, modelId: string | null) {
+    const gated = gatedRequests.get(requestId);
+    gatedRequests.delete(requestId);
+    if (!modelId) {
+        vscode.window.showInformationMessage('SimpLLM: Request cancelled, no credits used.');
+        return;
+    }
+    if (!gated) {
+        vscode.window.showWarningMessage('SimpLLM: This request is no longer pending. Send it again.');
+        return;
+    }
+    confirmedRoute = { ...gated, requestId, modelId };
+    const command = gated.command ? `/${gated.command} ` : '';
+    await vscode.commands.executeCommand('workbench.action.chat.open', { query: `@simpllm ${command}${gated.prompt}` });
+}
+
+// ============================================
+// RETRY
+// ============================================
+
+function rememberAnswer(requestId: string, answer: AnsweredRequest) {
+    recentAnswers.set(requestId, answer);
+    if (recentAnswers.size > MAX_RECENT_ANSWERS) {
+        recentAnswers.delete(recentAnswers.keys().next().value!);
+    }
+}
+
+/**
+ * History up to (not including) the turn that produced an answer, so a retry sees
+ * the same conversation the original request did
+ */
+function historyBefore(history: vscode.ChatContext['history'], requestId: string): vscode.ChatContext['history'] {
+    const index = history.findIndex(turn =>
+        turn instanceof vscode.ChatResponseTurn && turn.result.metadata?.requestId === requestId);
+    // The request turn sits right before its response
+    return index > 0 ? history.slice(0, index - 1) : history;
+}
+
+/**
+ * Pick a model for an earlier answer and re-run it as "@simpllm /retry" in chat
+ */
+async function retryWithModel(requestId?: string) {
+    const id = requestId ?? lastRequest?.requestId;
+    const original = id ? recentAnswers.get(id) : undefined;
+    if (!id || !original) {
+        vscode.window.showWarningMessage('SimpLLM: Nothing to retry. Send a request first.');
+        return;
+    }
+
+    const items = MODELS
+        .filter(m => m.id !== original.modelId && isModelAllowed(m))
+        .map(m => ({
+            label: m.name + (m.isPreview ? ' (Preview)' : ''),
+            description: `${m.creditMultiplier}x credit`,
+            detail: m.id
+        }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Re-run with a different model (was ${getModel(original.modelId)?.name ?? original.modelId})`,
+        title: 'SimpLLM — Retry with different model'
+    });
+
+    if (selected?.detail) {
+        pendingRetry = { requestId: id, modelId: selected.detail };
+        await vscode.commands.executeCommand('workbench.action.chat.open', {
+            query: `@simpllm /retry ${original.prompt}`
+        });
+    }
+}
+
+/**
+ * Open the original and retried answers side by side
+ */
+async function compareAnswers(originalId: string, retryId: string) {
+    const original = recentAnswers.get(originalId);
+    const retry = recentAnswers.get(retryId);
+    if (!original || !retry) {
+        vscode.window.showWarningMessage('SimpLLM: These answers are no longer available to compare.');
+        return;
+    }
+
+    const left = await vscode.workspace.openTextDocument({ content: original.output, language: 'markdown' });
+    const right = await vscode.workspace.openTextDocument({ content: retry.output, language: 'markdown' });
+    const name = (modelId: string) => getModel(modelId)?.name ?? modelId;
+    await vscode.commands.executeCommand('vscode.diff', left.uri, right.uri,
+        `${name(original.modelId)} ↔ ${name(retry.modelId)}`);
+}
+
 // ============================================
 // CHAT HANDLER (Two-Pass)
 // ============================================
@@ -245,9 +871,7 @@ async function handleChatRequest(
         return { metadata: { error: 'disabled' } };
     }
 
-    const requestId = generateRequestId();
     const startTime = Date.now();
-    const prompt = request.prompt;
 
     // Check for slash commands
     if (request.command === 'stats') {
@@ -256,121 +880,199 @@ async function handleChatRequest(
     if (request.command === 'budget') {
         return handleBudgetCommand(stream);
     }
+    if (request.command === 'credits') {
+        return handleCreditsCommand(stream);
+    }
+    if (request.command === 'explain') {
+        return handleExplainCommand(request, context, stream, token);
+    }
+    if (request.command === 'compare') {
+        return handleCompareCommand(request, context, stream, token);
+    }
+    if (request.command === 'retry') {
+        return handleRetryCommand(context, stream, token, generateRequestId(), startTime);
+    }
 
-    // Check for force model override
-    let cleanPrompt = prompt;
-    let forcedId = forceModelId;
-    forceModelId = null;
+    // A confirmed premium request comes back as plain text; reattach its files and selections
+    const confirmed = confirmedRoute?.prompt === request.prompt && !confirmedRoute.command ? confirmedRoute : null;
+    confirmedRoute = null;
+    const promptReferences = confirmed ? confirmed.promptReferences : request.references;
 
-    const forceMatch = prompt.match(/@(\w[\w.-]*)/);
-    if (forceMatch) {
-        const modelPatterns: Record<string, string> = {
-            'opus': 'claude-opus-4.5', 'sonnet4.5': 'claude-sonnet-4.5', 'sonnet': 'claude-sonnet-4',
-            'geminipro': 'gemini-2.5-pro', 'gpt5.2': 'gpt-5.2', 'gpt5.1': 'gpt-5.1',
-            'gpt5': 'gpt-5', 'gpt4o': 'gpt-4o', 'gpt4.1': 'gpt-4.1',
-            'haiku': 'claude-haiku-4.5', 'flash': 'gemini-3-flash', 'codexmini': 'gpt-5.1-codex-mini'
-        };
-        const key = forceMatch[1].toLowerCase().replace(/-/g, '');
-        if (modelPatterns[key]) {
-            forcedId = modelPatterns[key];
-            cleanPrompt = prompt.replace(forceMatch[0], '').trim();
-        }
-    }
+    // It also keeps the preview's id and routing while that model is still allowed: no second
+    // classifier call, and the experiment arm it was shown is the one it is charged to
+    const previewed = confirmed?.decision && isModelAllowed(confirmed.decision.model) ? confirmed.decision : undefined;
+    const requestId = previewed ? confirmed!.requestId : generateRequestId();
 
-    // ---- PASS 1: Classification ----
-    let taskType: TaskType;
-    let selectedModelDef: ModelDefinition;
-    let reason: string;
+    // Check for force model override (picker or "@model" in the prompt)
+    const prepared = await prepareRequest(request.prompt, promptReferences, context.history, forceModelId);
+    forceModelId = null;
+    const { cleanPrompt, forcedId, messages, historyStart } = prepared;
 
-    if (forcedId) {
-        // Manual override
-        selectedModelDef = getModel(forcedId)!;
-        taskType = fallbackClassify(cleanPrompt); // Quick classify, don't waste API call
-        reason = `Manual: ${selectedModelDef.name}`;
+    // ---- PASS 1: Classification & routing ----
+    const decision = previewed ?? await routeRequest(prepared, context.history, requestId, token, {
+        onProgress: message => stream.progress(message)
+    });
+    const { taskType, taskLabel, classification, downgradedFrom } = decision;
+    let experiment = decision.experiment;
+    let selectedModelDef = decision.model;
+    let reason = decision.reason;
+    for (const warning of decision.warnings) {
+        stream.markdown(`${warning}\n\n`);
+    }
 
-        if (lastRequest && lastRequest.modelId !== forcedId) {
-            await recordOverride(requestId, lastRequest.modelId, forcedId, taskType);
+    // Premium models wait for the developer's go-ahead (manual picks are consent already)
+    if (!forcedId) {
+        // A switch at the preview is about cost, not quality, so it is not recorded as an override
+        const switched = !!confirmed && confirmed.modelId !== selectedModelDef.id;
+        const chosen = switched ? getModel(confirmed!.modelId) : undefined;
+        if (chosen && isModelAllowed(chosen) && fitsContext(chosen, prepared.contextTokens)) {
+            selectedModelDef = chosen;
+            experiment = undefined; // Not the arm's model anymore, keep it out of the comparison
+            reason = `${taskLabel} → ${selectedModelDef.name} · cheaper alternative chosen`;
+        } else {
+            if (switched) {
+                stream.markdown(`⚠️ **${chosen?.name ?? confirmed!.modelId}** is no longer allowed or cannot hold this request.\n\n`);
+            }
+            if ((!confirmed || switched) && needsConfirmation(selectedModelDef, taskType)) {
+                return showCostPreview(stream, requestId, { prompt: request.prompt, promptReferences, decision }, decision);
+            }
         }
-    } else {
-        // Two-pass: classify first, then route
-        stream.progress('Analyzing request...');
-        taskType = await classifyPrompt(cleanPrompt, token);
-        selectedModelDef = getModelForTask(taskType);
-        reason = `${taskType} → ${selectedModelDef.name}`;
     }
 
-    // Check policy
-    if (!isModelAllowed(selectedModelDef)) {
-        stream.markdown(`⚠️ **${selectedModelDef.name}** is restricted. Using fallback.\n\n`);
-        selectedModelDef = getModel('gpt-4o')!;
+    if (forcedId && lastRequest && lastRequest.modelId !== forcedId) {
+        await recordOverride(requestId, lastRequest.modelId, forcedId, taskType, {
+            experiment: lastRequest.experiment?.experimentId,
+            arm: lastRequest.experiment?.armId
+        });
     }
 
     // ---- PASS 2: Execute with selected model ----
-    const model = await selectCopilotModel(selectedModelDef);
+    return executeRequest({
+        requestId,
+        startTime,
+        prompt: cleanPrompt,
+        promptReferences,
+        messages,
+        historyStart,
+        modelDef: selectedModelDef,
+        reason,
+        taskType,
+        classification,
+        downgradedFrom,
+        experiment
+    }, stream, token);
+}
+
+interface ExecutionPlan {
+    requestId: string;
+    startTime: number;
+    prompt: string;
+    promptReferences: readonly vscode.ChatPromptReference[];
+    messages: vscode.LanguageModelChatMessage[];
+    historyStart: number;
+    modelDef: ModelDefinition;
+    reason: string;
+    taskType: TaskType;
+    classification?: Classification;
+    downgradedFrom?: ModelDefinition;
+    experiment?: ArmAssignment;
+    retryOf?: string;   // Request id of the answer this one re-runs
+}
+
+/**
+ * Pass 2: send the conversation to the chosen model, stream the answer and record it
+ */
+async function executeRequest(
+    plan: ExecutionPlan,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<vscode.ChatResult> {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    const { requestId, startTime, prompt, messages, historyStart, modelDef, reason, taskType, classification, downgradedFrom, experiment } = plan;
+
+    const model = await selectCopilotModel(modelDef);
     if (!model) {
-        stream.markdown(`⚠️ **Model not available:** ${selectedModelDef.name}\n\nPlease ensure GitHub Copilot Chat is installed.`);
+        stream.markdown(`⚠️ **Model not available:** ${modelDef.name}\n\nPlease ensure GitHub Copilot Chat is installed.`);
         return { metadata: { error: 'no_model' } };
     }
 
     // Show routing info
     if (config.get<boolean>('showModelInfo', true)) {
-        stream.markdown(`> **${model.name}** · ${selectedModelDef.creditMultiplier}x credit · ${reason}\n\n`);
+        stream.markdown(`> **${model.name}** · ${modelDef.creditMultiplier}x credit · ${reason}\n\n`);
     }
 
-    updateStatusBar(selectedModelDef);
+    updateStatusBar(modelDef);
 
-    // Build messages with history
-    const messages = [vscode.LanguageModelChatMessage.User(cleanPrompt)];
-    for (const turn of context.history) {
-        if (turn instanceof vscode.ChatRequestTurn) {
-            messages.push(vscode.LanguageModelChatMessage.User(turn.prompt));
-        } else if (turn instanceof vscode.ChatResponseTurn) {
-            let resp = '';
-            for (const part of turn.response) {
-                if (part instanceof vscode.ChatResponseMarkdownPart) resp += part.value.value;
-            }
-            if (resp) messages.push(vscode.LanguageModelChatMessage.Assistant(resp));
-        }
+    const { inputTokens, dropped } = await trimToFit(model, messages, historyStart, token);
+    if (dropped > 0) {
+        stream.markdown(`> ℹ️ Dropped ${dropped} older message(s) to fit ${model.name}'s context window.\n\n`);
     }
 
     try {
         const response = await model.sendRequest(messages, {}, token);
-        let outputTokens = 0;
+        let output = '';
         for await (const chunk of response.text) {
             stream.markdown(chunk);
-            outputTokens += chunk.length / 4;
+            output += chunk;
         }
+        const outputTokens = await countTextTokens(model, output, token);
 
-        // Update stats
+        // Update monthly ledger
         const responseTime = Date.now() - startTime;
-        sessionStats.requestCount++;
-        sessionStats.tokenCount.input += cleanPrompt.length / 4;
-        sessionStats.tokenCount.output += outputTokens;
-        sessionStats.creditsByModel[selectedModelDef.id] =
-            (sessionStats.creditsByModel[selectedModelDef.id] || 0) + selectedModelDef.creditMultiplier;
-        sessionStats.taskTypes[taskType] = (sessionStats.taskTypes[taskType] || 0) + 1;
-        sessionStats.totalCreditsUsed += selectedModelDef.creditMultiplier;
+        await recordUsage({
+            requestId,
+            model: modelDef.id,
+            taskType,
+            creditMultiplier: modelDef.creditMultiplier,
+            inputTokens,
+            outputTokens,
+            responseTime,
+            experiment: experiment?.experimentId,
+            arm: experiment?.armId
+        });
 
         // Save last request for retry
-        lastRequest = { prompt: cleanPrompt, requestId, modelId: selectedModelDef.id, taskType };
+        lastRequest = { prompt, requestId, modelId: modelDef.id, taskType, experiment };
+        rememberAnswer(requestId, {
+            prompt,
+            promptReferences: plan.promptReferences,
+            modelId: modelDef.id,
+            taskType,
+            output,
+            experiment
+        });
 
         // Show feedback + retry buttons
         if (config.get<boolean>('collectFeedback', true)) {
-            showFeedbackButtons(stream, requestId, selectedModelDef.id, taskType);
+            showFeedbackButtons(stream, requestId, modelDef.id, taskType, {
+                promptLength: prompt.length,
+                responseTime,
+                inputTokens,
+                outputTokens,
+                experiment: experiment?.experimentId,
+                arm: experiment?.armId
+            });
         }
 
         // Quick retry button
         stream.button({
             command: 'simpllm.retryWithModel',
             title: '🔄 Retry with different model',
-            arguments: [cleanPrompt]
+            arguments: [requestId]
         });
+        if (plan.retryOf && recentAnswers.has(plan.retryOf)) {
+            stream.button({
+                command: 'simpllm.compareAnswers',
+                title: '⇄ Compare with previous answer',
+                arguments: [plan.retryOf, requestId]
+            });
+        }
 
-        updateStatusBar(selectedModelDef);
+        updateStatusBar(modelDef);
 
         // Check budget warnings
-        const monthlyBudget = config.get<number>('monthlyBudget', 300);
-        const usedPercent = (sessionStats.totalCreditsUsed / monthlyBudget) * 100;
+        const monthlyBudget = getEffectivePolicy().monthlyBudget.value;
+        const usedPercent = monthlyBudget > 0 ? (getUsageStats().totalCreditsUsed / monthlyBudget) * 100 : 100;
         if (usedPercent >= 90) {
             stream.markdown('\n\n> ⚠️ **Credit budget at ' + usedPercent.toFixed(0) + '%**. Consider requesting extra credits.');
             stream.button({
@@ -381,7 +1083,21 @@ async function handleChatRequest(
         }
 
         return {
-            metadata: { model: selectedModelDef.name, taskType, credit: selectedModelDef.creditMultiplier, requestId }
+            metadata: {
+                model: modelDef.name,
+                taskType,
+                credit: modelDef.creditMultiplier,
+                requestId,
+                downgradedFrom: downgradedFrom?.id,
+                secondaryTaskType: classification?.secondary,
+                confidence: classification?.confidence,
+                complexity: classification?.complexity,
+                inputTokens,
+                outputTokens,
+                experiment: experiment?.experimentId,
+                arm: experiment?.armId,
+                retryOf: plan.retryOf
+            }
         };
     } catch (error) {
         if (error instanceof vscode.LanguageModelError) {
@@ -398,30 +1114,42 @@ async function handleChatRequest(
 // ============================================
 
 function handleStatsCommand(stream: vscode.ChatResponseStream): vscode.ChatResult {
-    const config = vscode.workspace.getConfiguration('simpllm');
-    const monthlyBudget = config.get<number>('monthlyBudget', 300);
-    const usedPercent = monthlyBudget > 0 ? (sessionStats.totalCreditsUsed / monthlyBudget * 100).toFixed(1) : '0';
+    const monthlyBudget = getEffectivePolicy().monthlyBudget.value;
+    const usage = getUsageStats();
+    const usedPercent = monthlyBudget > 0 ? (usage.totalCreditsUsed / monthlyBudget * 100).toFixed(1) : '100';
 
-    stream.markdown(`## 📊 SimpLLM Session Statistics\n\n`);
+    stream.markdown(`## 📊 SimpLLM Statistics (${usage.month})\n\n`);
     stream.markdown(`| Metric | Value |\n|--------|-------|\n`);
-    stream.markdown(`| Requests | ${sessionStats.requestCount} |\n`);
-    stream.markdown(`| Credits Used | ${sessionStats.totalCreditsUsed.toFixed(1)}x |\n`);
+    stream.markdown(`| Requests | ${usage.requestCount} |\n`);
+    stream.markdown(`| Credits Used | ${usage.totalCreditsUsed.toFixed(1)}x |\n`);
     stream.markdown(`| Budget Used | ${usedPercent}% of ${monthlyBudget} |\n`);
-    stream.markdown(`| Input Tokens | ~${Math.round(sessionStats.tokenCount.input)} |\n`);
-    stream.markdown(`| Output Tokens | ~${Math.round(sessionStats.tokenCount.output)} |\n\n`);
+    stream.markdown(`| Input Tokens | ${Math.round(usage.tokenCount.input)} |\n`);
+    stream.markdown(`| Output Tokens | ${Math.round(usage.tokenCount.output)} |\n`);
+    const cache = getCacheStats();
+    stream.markdown(`| Classifier Cache Hits | ${(cache.hitRate * 100).toFixed(0)}% (${cache.hits}/${cache.hits + cache.misses}, ${cache.size} cached) |\n`);
+    const outbox = getOutboxStats();
+    const outboxDetails = [
+        outbox.retrying > 0 ? `${outbox.retrying} retrying` : '',
+        outbox.oldest ? `oldest ${new Date(outbox.oldest).toLocaleString()}` : '',
+        outbox.dropped > 0 ? `${outbox.dropped} dropped` : ''
+    ].filter(Boolean).join(', ');
+    stream.markdown(`| Events Pending Sync | ${outbox.pending}${outboxDetails ? ` (${outboxDetails})` : ''} |\n`);
+    const stored = getStoreInfo();
+    const storedSince = stored.oldestMonth ? `, since ${stored.oldestMonth}` : '';
+    stream.markdown(`| Feedback Stored | ${stored.entries} entries (${(stored.bytes / 1024).toFixed(0)} KB in ${stored.segments} monthly files${storedSince}) |\n\n`);
 
     // Model breakdown
     stream.markdown(`### Model Usage\n\n`);
     stream.markdown(`| Model | Credits | Requests |\n|-------|---------|----------|\n`);
-    for (const [id, credits] of Object.entries(sessionStats.creditsByModel).sort(([, a], [, b]) => b - a)) {
+    for (const [id, credits] of Object.entries(usage.creditsByModel).sort(([, a], [, b]) => b - a)) {
         const model = getModel(id);
-        stream.markdown(`| ${model?.name || id} | ${credits.toFixed(1)}x | - |\n`);
+        stream.markdown(`| ${model?.name || id} | ${credits.toFixed(1)}x | ${usage.requestsByModel[id] || 0} |\n`);
     }
 
     // Task breakdown
     stream.markdown(`\n### Task Distribution\n\n`);
     stream.markdown(`| Task | Count |\n|------|-------|\n`);
-    for (const [type, count] of Object.entries(sessionStats.taskTypes).sort(([, a], [, b]) => b - a)) {
+    for (const [type, count] of Object.entries(usage.taskTypes).sort(([, a], [, b]) => b - a)) {
         stream.markdown(`| ${type} | ${count} |\n`);
     }
 
@@ -429,19 +1157,23 @@ function handleStatsCommand(stream: vscode.ChatResponseStream): vscode.ChatResul
 }
 
 function handleBudgetCommand(stream: vscode.ChatResponseStream): vscode.ChatResult {
-    const config = vscode.workspace.getConfiguration('simpllm');
-    const monthlyBudget = config.get<number>('monthlyBudget', 300);
-    const used = sessionStats.totalCreditsUsed;
+    const { monthlyBudget: { value: monthlyBudget }, approvedCredits } = getEffectivePolicy();
+    const used = getUsageStats().totalCreditsUsed;
     const remaining = Math.max(0, monthlyBudget - used);
-    const usedPercent = (used / monthlyBudget * 100).toFixed(1);
+    const usedPercent = monthlyBudget > 0 ? (used / monthlyBudget * 100).toFixed(1) : '100';
 
-    const bar = '█'.repeat(Math.round(used / monthlyBudget * 20)) + '░'.repeat(Math.max(0, 20 - Math.round(used / monthlyBudget * 20)));
+    // A zero budget (allowed for teams and departments) counts as exhausted, like an overrun
+    const filled = monthlyBudget > 0 ? Math.min(20, Math.round(used / monthlyBudget * 20)) : 20;
+    const bar = '█'.repeat(filled) + '░'.repeat(20 - filled);
 
     stream.markdown(`## 💰 Credit Budget\n\n`);
     stream.markdown(`\`${bar}\` ${usedPercent}%\n\n`);
     stream.markdown(`| | Credits |\n|---|---|\n`);
     stream.markdown(`| Used | ${used.toFixed(1)}x |\n`);
     stream.markdown(`| Remaining | ${remaining.toFixed(1)}x |\n`);
+    if (approvedCredits > 0) {
+        stream.markdown(`| Approved Extra | +${approvedCredits}x |\n`);
+    }
     stream.markdown(`| Monthly Budget | ${monthlyBudget}x |\n\n`);
 
     if (remaining < 30) {
@@ -456,38 +1188,430 @@ function handleBudgetCommand(stream: vscode.ChatResponseStream): vscode.ChatResu
     return { metadata: { command: 'budget' } };
 }
 
+const CREDIT_STATUS_LABELS: Record<CreditRequestStatus, string> = {
+    pending: '⏳ Pending',
+    approved: '✅ Approved',
+    rejected: '❌ Rejected'
+};
+
+async function handleCreditsCommand(stream: vscode.ChatResponseStream): Promise<vscode.ChatResult> {
+    stream.progress('Checking for decisions...');
+    if (await pollCreditDecisions()) updateStatusBar();
+
+    const requests = [...getCreditRequests()].reverse();
+    stream.markdown(`## 📋 Credit Requests\n\n`);
+    if (requests.length === 0) {
+        stream.markdown(`No credit requests yet.\n\n`);
+    } else {
+        stream.markdown(`| Requested | Credits | Status | Admin Comment |\n|---|---|---|---|\n`);
+        for (const r of requests) {
+            const credits = r.status === 'approved' && r.approvedAmount !== r.amount
+                ? `${r.approvedAmount} of ${r.amount}`
+                : `${r.amount}`;
+            const comment = (r.comment ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+            stream.markdown(`| ${new Date(r.createdAt).toLocaleDateString()} | ${credits} | ${CREDIT_STATUS_LABELS[r.status]} | ${comment || '—'} |\n`);
+        }
+        stream.markdown(`\n`);
+    }
+
+    stream.button({
+        command: 'simpllm.requestCredits',
+        title: '📋 Request Extra Credits',
+        arguments: []
+    });
+    return { metadata: { command: 'credits' } };
+}
+
+/**
+ * Dry run of the full routing pipeline: shows every decision without executing Pass 2
+ */
+async function handleExplainCommand(
+    request: vscode.ChatRequest,
+    context: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<vscode.ChatResult> {
+    if (!request.prompt.trim()) {
+        stream.markdown('Usage: `@simpllm /explain <prompt>` shows how a prompt would be routed, without sending it.');
+        return { metadata: { command: 'explain' } };
+    }
+
+    // A pending model picker choice is peeked at, not consumed
+    const prepared = await prepareRequest(request.prompt, request.references, context.history, forceModelId);
+    const decision = await routeRequest(prepared, context.history, generateRequestId(), token, {
+        dryRun: true,
+        onProgress: message => stream.progress(message)
+    });
+    const selected = decision.model;
+
+    stream.markdown(`## 🔍 Routing Explanation\n\n`);
+    stream.markdown(`**Result:** ${selected.name} · ${selected.creditMultiplier}x credit · ${decision.reason}\n\n`);
+    stream.markdown(`### Decision Trace\n\n`);
+    decision.trace.forEach((step, i) => stream.markdown(`${i + 1}. ${step}\n`));
+
+    // Rules that applied, and which layer each came from
+    const policy = getEffectivePolicy();
+    const from = (layer: PolicyLayer) => POLICY_LAYER_LABELS[layer];
+    stream.markdown(`\n### Policy\n\n`);
+    stream.markdown(`| | Value | From |\n|---|---|---|\n`);
+    stream.markdown(`| Team | ${policy.teamId || '—'} | |\n`);
+    stream.markdown(`| Department | ${policy.departmentId || '—'} | |\n`);
+    stream.markdown(`| Allowed models | ${policy.allowedModels.value?.join(', ') || 'any'} | ${from(policy.allowedModels.layer)} |\n`);
+    stream.markdown(`| Blocked models | ${policy.blockedModels.join(', ') || 'none'} | all layers |\n`);
+    stream.markdown(`| Max credit tier | ${policy.maxCreditTier.value} | ${from(policy.maxCreditTier.layer)} |\n`);
+    const approved = policy.approvedCredits > 0 ? ` (incl. +${policy.approvedCredits} approved)` : '';
+    stream.markdown(`| Monthly budget | ${policy.monthlyBudget.value}${approved} | ${from(policy.monthlyBudget.layer)} |\n`);
+    const chain = getRoutingChain(decision.taskType)
+        .map(entry => `${getModel(entry.value)?.name ?? entry.value} (${from(entry.layer).toLowerCase()})`)
+        .join(' → ');
+    stream.markdown(`| Routing for ${decision.taskType} | ${chain} | first allowed wins |\n`);
+
+    // Availability in vscode.lm
+    stream.markdown(`\n### Availability\n\n`);
+    let available: vscode.LanguageModelChat[] = [];
+    try {
+        available = await vscode.lm.selectChatModels({ vendor: 'copilot', family: selected.family });
+    } catch (error) {
+        console.error('SimpLLM model selection error:', error);
+    }
+    if (available.length > 0) {
+        stream.markdown(`Family \`${selected.family}\` is available in Copilot as **${available[0].name}** ` +
+            `(max input ${available[0].maxInputTokens} tokens).\n\n`);
+    } else {
+        const fallback = await selectCopilotModel(selected);
+        stream.markdown(`Family \`${selected.family}\` is **not** available in Copilot → ` +
+            (fallback ? `would fall back to **${fallback.name}**.\n\n` : `no Copilot model available.\n\n`));
+    }
+
+    // Projected cost
+    const budget = getBudgetStatus();
+    const remaining = Math.max(0, budget.budget - budget.used - selected.creditMultiplier);
+    stream.markdown(`### Projected Cost\n\n`);
+    stream.markdown(`| | |\n|---|---|\n`);
+    stream.markdown(`| Context | ~${Math.round(prepared.contextTokens)} tokens |\n`);
+    stream.markdown(`| Credit cost | ${selected.creditMultiplier}x |\n`);
+    stream.markdown(`| Budget used | ${budget.used.toFixed(1)} / ${budget.budget} (${budget.percent.toFixed(0)}%) |\n`);
+    stream.markdown(`| Remaining after request | ${remaining.toFixed(1)} |\n\n`);
+    stream.markdown(`_Dry run: nothing was sent to ${selected.name} and no credits were used._`);
+
+    return { metadata: { command: 'explain', taskType: decision.taskType, model: selected.name } };
+}
+
+/**
+ * Re-run an earlier answer with the model picked from its retry button
+ */
+async function handleRetryCommand(
+    context: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    requestId: string,
+    startTime: number
+): Promise<vscode.ChatResult> {
+    const retry = pendingRetry;
+    pendingRetry = null;
+    const original = retry ? recentAnswers.get(retry.requestId) : undefined;
+    const modelDef = retry ? getModel(retry.modelId) : undefined;
+    if (!retry || !original || !modelDef) {
+        stream.markdown('Nothing to retry. Use the **🔄 Retry with different model** button under an answer.');
+        return { metadata: { command: 'retry' } };
+    }
+    if (!isModelAllowed(modelDef)) {
+        stream.markdown(`⚠️ **${modelDef.name}** is not allowed by the current policy or budget.`);
+        return { metadata: { command: 'retry', error: 'not_allowed' } };
+    }
+
+    // Same prompt, attachments and conversation as the original request
+    const history = historyBefore(context.history, retry.requestId);
+    const prepared = await prepareRequest(original.prompt, original.promptReferences, history, modelDef.id);
+    const taskType = original.taskType as TaskType;
+    const originalModel = getModel(original.modelId);
+
+    await recordOverride(requestId, original.modelId, modelDef.id, taskType, {
+        experiment: original.experiment?.experimentId,
+        arm: original.experiment?.armId
+    });
+
+    return executeRequest({
+        requestId,
+        startTime,
+        prompt: prepared.cleanPrompt,
+        promptReferences: original.promptReferences,
+        messages: prepared.messages,
+        historyStart: prepared.historyStart,
+        modelDef,
+        reason: `${taskType} → retry of ${originalModel?.name ?? original.modelId}`,
+        taskType,
+        retryOf: retry.requestId
+    }, stream, token);
+}
+
+const MAX_COMPARE_MODELS = 3;
+
+interface ComparedAnswer {
+    requestId: string;
+    modelId: string;
+    details: RequestDetails;
+}
+
+/**
+ * Models named in a /compare prompt ("@gpt4o @sonnet4.5 ..."), or the configured defaults
+ */
+function parseCompareModels(prompt: string): { prompt: string; modelIds: string[] } {
+    const modelIds: string[] = [];
+    const cleaned = prompt.replace(/@(\w[\w.-]*)/g, (match, name: string) => {
+        const id = FORCE_MODEL_PATTERNS[name.toLowerCase().replace(/-/g, '')] ?? getModel(name)?.id;
+        if (!id) return match;
+        if (!modelIds.includes(id)) modelIds.push(id);
+        return '';
+    }).trim();
+
+    if (modelIds.length === 0) {
+        const config = vscode.workspace.getConfiguration('simpllm');
+        modelIds.push(...config.get<string[]>('compareModels', ['gpt-4o', 'claude-sonnet-4.5']));
+    }
+    return { prompt: cleaned, modelIds };
+}
+
+/**
+ * Send the same prompt to two or three models, one labeled section each, then let
+ * the developer vote for the best answer
+ */
+async function handleCompareCommand(
+    request: vscode.ChatRequest,
+    context: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<vscode.ChatResult> {
+    const { prompt, modelIds } = parseCompareModels(request.prompt);
+    if (!prompt) {
+        stream.markdown('Usage: `@simpllm /compare [@model ...] <prompt>` sends the prompt to two or three models side by side.\n\n' +
+            'Without `@model` names the `simpllm.compareModels` setting is used.');
+        return { metadata: { command: 'compare' } };
+    }
+
+    // Only models the policy and budget allow, and no more than the budget has left
+    const notes: string[] = [];
+    const selected: ModelDefinition[] = [];
+    for (const id of modelIds) {
+        const modelDef = getModel(id);
+        if (!modelDef) {
+            notes.push(`Unknown model \`${id}\` skipped.`);
+        } else if (!isModelAllowed(modelDef)) {
+            notes.push(`${modelDef.name} is not allowed by the current policy or budget.`);
+        } else if (selected.length >= MAX_COMPARE_MODELS) {
+            notes.push(`${modelDef.name} skipped, at most ${MAX_COMPARE_MODELS} models are compared.`);
+        } else {
+            selected.push(modelDef);
+        }
+    }
+    const budget = getBudgetStatus();
+    const remaining = budget.budget > 0 ? budget.budget - budget.used : Infinity;
+    const totalCost = () => selected.reduce((total, m) => total + m.creditMultiplier, 0);
+    while (selected.length > 0 && totalCost() > remaining) {
+        const mostExpensive = selected.reduce((a, b) => (b.creditMultiplier > a.creditMultiplier ? b : a));
+        selected.splice(selected.indexOf(mostExpensive), 1);
+        notes.push(`${mostExpensive.name} dropped to stay within the remaining budget.`);
+    }
+
+    if (selected.length < 2) {
+        stream.markdown('⚠️ **Need at least two allowed models to compare.**\n\n');
+        notes.forEach(note => stream.markdown(`- ${note}\n`));
+        return { metadata: { command: 'compare', error: 'not_enough_models' } };
+    }
+
+    // A confirmed comparison comes back as plain text; reattach its files and selections
+    const confirmed = confirmedRoute?.command === 'compare' && confirmedRoute.prompt === request.prompt ? confirmedRoute : null;
+    confirmedRoute = null;
+    const promptReferences = confirmed ? confirmed.promptReferences : request.references;
+
+    const prepared = await prepareRequest(prompt, promptReferences, context.history, null);
+    const decision = await routeRequest(prepared, context.history, generateRequestId(), token, {
+        dryRun: true,
+        onProgress: message => stream.progress(message)
+    });
+    const taskType = decision.taskType;
+
+    // Premium models need the same go-ahead as a routed request
+    const premium = selected.filter(m => needsConfirmation(m, taskType));
+    if (premium.length > 0 && !confirmed) {
+        const requestId = generateRequestId();
+        rememberGatedRequest(requestId, { prompt: request.prompt, promptReferences, command: 'compare' });
+        const total = selected.reduce((sum, m) => sum + m.creditMultiplier, 0);
+        stream.markdown(`### 💳 Confirm premium comparison\n\n`);
+        stream.markdown(`| Model | Credits |\n|---|---|\n`);
+        selected.forEach(m => stream.markdown(`| ${m.name}${premium.includes(m) ? ' 💎' : ''} | ${m.creditMultiplier}x |\n`));
+        const left = Number.isFinite(remaining) ? ` (${Math.max(0, remaining).toFixed(1)} left this month)` : '';
+        stream.markdown(`| **Total** | **${total}x**${left} |\n\n`);
+        stream.button({
+            command: 'simpllm.confirmRoute',
+            title: `✅ Compare (${total}x)`,
+            arguments: [requestId, premium[0].id]
+        });
+        stream.button({
+            command: 'simpllm.confirmRoute',
+            title: '✖ Cancel',
+            arguments: [requestId, null]
+        });
+        return { metadata: { command: 'compare', pendingConfirmation: true, taskType } };
+    }
+
+    stream.markdown(`## ⚖️ Model Comparison\n\n`);
+    stream.markdown(`**Task:** ${taskType} · router would pick ${decision.model.name}\n\n`);
+    notes.forEach(note => stream.markdown(`> ℹ️ ${note}\n>\n`));
+
+    const answers: ComparedAnswer[] = [];
+    const rows: string[] = [];
+    for (const [index, modelDef] of selected.entries()) {
+        if (token.isCancellationRequested) break;
+        const label = String.fromCharCode(65 + index);
+        stream.markdown(`\n\n---\n\n### ${label} · ${modelDef.name} (${modelDef.creditMultiplier}x)\n\n`);
+
+        const model = await selectCopilotModel(modelDef);
+        if (!model) {
+            stream.markdown(`⚠️ Not available in Copilot.`);
+            rows.push(`| ${label} | ${modelDef.name} | — | — | — | 0 |`);
+            continue;
+        }
+
+        const requestId = generateRequestId();
+        const startTime = Date.now();
+        const messages = [...prepared.messages];
+        const { inputTokens } = await trimToFit(model, messages, prepared.historyStart, token);
+        try {
+            const response = await model.sendRequest(messages, {}, token);
+            let output = '';
+            for await (const chunk of response.text) {
+                stream.markdown(chunk);
+                output += chunk;
+            }
+            const outputTokens = await countTextTokens(model, output, token);
+            const responseTime = Date.now() - startTime;
+
+            await recordUsage({
+                requestId,
+                model: modelDef.id,
+                taskType,
+                creditMultiplier: modelDef.creditMultiplier,
+                inputTokens,
+                outputTokens,
+                responseTime
+            });
+            rememberAnswer(requestId, {
+                prompt,
+                promptReferences,
+                modelId: modelDef.id,
+                taskType,
+                output
+            });
+            answers.push({
+                requestId,
+                modelId: modelDef.id,
+                details: { promptLength: prompt.length, responseTime, inputTokens, outputTokens }
+            });
+            rows.push(`| ${label} | ${modelDef.name} | ${(responseTime / 1000).toFixed(1)}s | ` +
+                `${inputTokens.toLocaleString()} | ${outputTokens.toLocaleString()} | ${modelDef.creditMultiplier} |`);
+        } catch (error) {
+            if (!(error instanceof vscode.LanguageModelError)) throw error;
+            stream.markdown(`⚠️ Error: ${error.message}`);
+            rows.push(`| ${label} | ${modelDef.name} | — | — | — | 0 |`);
+        }
+    }
+
+    const credits = answers.reduce((total, a) => total + getModel(a.modelId)!.creditMultiplier, 0);
+    stream.markdown(`\n\n---\n\n### Summary\n\n`);
+    stream.markdown(`| | Model | Latency | Input | Output | Credits |\n|---|---|---|---|---|---|\n`);
+    stream.markdown(rows.join('\n') + '\n');
+    stream.markdown(`| | **Total** | | | | **${credits}** |\n\n`);
+    updateStatusBar();
+
+    if (answers.length >= 2) {
+        stream.markdown('Which answer was best? Your vote is recorded as feedback for the router.\n\n');
+        for (const answer of answers) {
+            const label = String.fromCharCode(65 + selected.findIndex(m => m.id === answer.modelId));
+            stream.button({
+                command: 'simpllm.compareVote',
+                title: `🏆 ${label}: ${getModel(answer.modelId)!.name}`,
+                arguments: [answer.requestId, answers, taskType]
+            });
+        }
+        stream.button({
+            command: 'simpllm.compareAnswers',
+            title: '⇄ Diff the first two answers',
+            arguments: [answers[0].requestId, answers[1].requestId]
+        });
+    }
+
+    return {
+        metadata: { command: 'compare', taskType, models: answers.map(a => a.modelId), credits }
+    };
+}
+
+/**
+ * Record a /compare vote: the winner as positive feedback, every other answer as negative.
+ * Only the first vote per comparison counts, so extra clicks don't inflate the evidence.
+ */
+async function recordCompareVote(winnerId: string, answers: ComparedAnswer[], taskType: string) {
+    const comparisonId = answers[0]?.requestId;
+    if (!comparisonId || votedComparisons.has(comparisonId)) {
+        vscode.window.showInformationMessage('SimpLLM: Your vote for this comparison is already recorded.');
+        return;
+    }
+    votedComparisons.add(comparisonId);
+
+    for (const answer of answers) {
+        const rating = answer.requestId === winnerId ? 'positive' : 'negative';
+        await recordFeedback(answer.requestId, answer.modelId, taskType, rating, answer.details);
+    }
+    const winner = answers.find(a => a.requestId === winnerId);
+    vscode.window.showInformationMessage(
+        `SimpLLM: Vote recorded for ${getModel(winner?.modelId ?? '')?.name ?? 'that answer'} 🏆`
+    );
+}
+
 // ============================================
 // MODEL PICKER & CREDIT REQUEST
 // ============================================
 
 async function showModelPicker() {
+    // Models Copilot does not offer are hidden
+    const offered = MODELS.filter(m => m.available !== false);
     const items: vscode.QuickPickItem[] = [
         { label: '$(sparkle) Auto', description: 'Intelligent routing', detail: 'auto' },
         { label: '', kind: vscode.QuickPickItemKind.Separator },
         { label: '0x Credit', kind: vscode.QuickPickItemKind.Separator },
-        ...MODELS.filter(m => m.creditTier === 'free').map(m => ({
+        ...offered.filter(m => m.creditTier === 'free').map(m => ({
             label: m.name, description: `${m.creditMultiplier}x`, detail: m.id
         })),
         { label: '0.33x Credit', kind: vscode.QuickPickItemKind.Separator },
-        ...MODELS.filter(m => m.creditTier === 'cheap').map(m => ({
+        ...offered.filter(m => m.creditTier === 'cheap').map(m => ({
             label: m.name + (m.isPreview ? ' (Preview)' : ''), description: `${m.creditMultiplier}x`, detail: m.id
         })),
         { label: '1x Credit', kind: vscode.QuickPickItemKind.Separator },
-        ...MODELS.filter(m => m.creditTier === 'standard').map(m => ({
+        ...offered.filter(m => m.creditTier === 'standard').map(m => ({
             label: m.name + (m.isPreview ? ' (Preview)' : ''), description: `${m.creditMultiplier}x`, detail: m.id
         })),
         { label: '3x Credit', kind: vscode.QuickPickItemKind.Separator },
-        ...MODELS.filter(m => m.creditTier === 'premium').map(m => ({
+        ...offered.filter(m => m.creditTier === 'premium').map(m => ({
             label: m.name, description: `${m.creditMultiplier}x`, detail: m.id
         }))
     ];
+    const hidden = MODELS.length - offered.length;
+    if (hidden > 0) {
+        items.push(
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            { label: `$(eye-closed) ${hidden} model(s) not available in Copilot`, detail: 'unavailable' }
+        );
+    }
 
     const selected = await vscode.window.showQuickPick(items, {
         placeHolder: 'Select model for next request',
         title: 'SimpLLM'
     });
 
-    if (selected?.detail) {
+    if (selected?.detail === 'unavailable') {
+        const names = MODELS.filter(m => m.available === false).map(m => m.name).join(', ');
+        vscode.window.showInformationMessage(`SimpLLM: Not enabled for your Copilot account: ${names}`);
+    } else if (selected?.detail) {
         if (selected.detail === 'auto') {
             forceModelId = null;
             vscode.window.showInformationMessage('SimpLLM: Auto routing enabled');
@@ -499,64 +1623,6 @@ async function showModelPicker() {
     }
 }
 
-async function retryWithModel(originalPrompt: string) {
-    // Show model picker, then channel the prompt back
-    const items = MODELS.map(m => ({
-        label: m.name + (m.isPreview ? ' (Preview)' : ''),
-        description: `${m.creditMultiplier}x credit`,
-        detail: m.id
-    }));
-
-    const selected = await vscode.window.showQuickPick(items, {
-        placeHolder: 'Select model for retry',
-        title: 'SimpLLM — Retry with different model'
-    });
-
-    if (selected?.detail) {
-        forceModelId = selected.detail;
-        // Re-send via chat
-        await vscode.commands.executeCommand('workbench.action.chat.open');
-        vscode.window.showInformationMessage(
-            `SimpLLM: Next request will use ${getModel(selected.detail)?.name}. Please re-send your prompt.`
-        );
-    }
-}
-
-async function requestExtraCredits() {
-    const reason = await vscode.window.showInputBox({
-        placeHolder: 'Why do you need extra credits?',
-        title: 'SimpLLM — Extra Credit Request',
-        prompt: 'This will be sent to your admin for approval.'
-    });
-
-    if (reason) {
-        const config = vscode.workspace.getConfiguration('simpllm');
-        const endpoint = config.get<string>('feedbackEndpoint', '');
-
-        if (endpoint) {
-            try {
-                await fetch(endpoint, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        type: 'credit_request',
-                        timestamp: new Date().toISOString(),
-                        teamId: config.get<string>('teamId', ''),
-                        departmentId: config.get<string>('departmentId', ''),
-                        currentUsage: sessionStats.totalCreditsUsed,
-                        reason
-                    })
-                });
-                vscode.window.showInformationMessage('SimpLLM: Credit request submitted! Your admin will review it.');
-            } catch {
-                vscode.window.showWarningMessage('SimpLLM: Could not submit request. Contact your admin directly.');
-            }
-        } else {
-            vscode.window.showInformationMessage('SimpLLM: No admin endpoint configured. Please contact your admin directly.');
-        }
-    }
-}
-
 // ============================================
 // ACTIVATION
 // ============================================
@@ -564,33 +1630,93 @@ async function requestExtraCredits() {
 export function activate(context: vscode.ExtensionContext) {
     console.log('SimpLLM: Activating with', MODELS.length, 'models');
 
+    initEndpoint(context);
     initFeedback(context);
-
-    // Load admin config
-    const config = vscode.workspace.getConfiguration('simpllm');
-    adminConfig = {
-        ...DEFAULT_ADMIN_CONFIG,
-        taskRouting: config.get<Record<string, string>>('taskRouting', {}) as Partial<Record<TaskType, string>>,
-        blockedModels: config.get<string[]>('blockedModels', []),
-        maxCreditTier: config.get<string>('maxCreditTier', 'premium') as CreditTier
+    initUsage(context);
+    initAdaptive(context);
+    initClassifierCache(context);
+    initOutbox(context);
+    initCredits(context);
+    initCatalog(context);
+    // The cached policy decides whether local catalog manifests apply, so it loads first
+    initCentralPolicy(context);
+    reloadCatalog()
+        .then(() => reconcileAvailability())
+        .then(() => updateStatusBar())
+        .catch(error => console.error('SimpLLM: catalog load failed', error));
+    context.subscriptions.push(vscode.lm.onDidChangeChatModels(() => reconcileAvailability()
+        .catch(error => console.error('SimpLLM: model availability check failed', error))));
+
+    // Later catalog reloads (policy lock, settings, trust, manifest edits) keep the last availability
+    const refreshCatalog = () => reloadCatalog()
+        .then(() => { markAvailability(); updateStatusBar(); })
+        .catch(error => console.error('SimpLLM: catalog reload failed', error));
+
+    // Frozen routing needs a snapshot even if it was frozen before this session
+    const syncLearnedRouting = () => syncLearnedRoutingSnapshot()
+        .catch(error => console.error('SimpLLM: learned routing snapshot failed', error));
+    syncLearnedRouting();
+
+    // Load admin config: the cached central policy right away, then the server's
+    loadAdminConfig();
+    const applyCentralPolicy = () => {
+        const wasLocked = getCentralPolicyStatus().policy?.locked ?? false;
+        return refreshCentralPolicy().then(() => {
+            loadAdminConfig();
+            updateStatusBar();
+            // Local catalog manifests only apply while the policy is unlocked
+            if ((getCentralPolicyStatus().policy?.locked ?? false) !== wasLocked) {
+                return refreshCatalog();
+            }
+        }).catch(error => console.error('SimpLLM: applying central policy failed', error));
     };
+    applyCentralPolicy();
+    const policyTimer = setInterval(applyCentralPolicy, POLICY_REFRESH_MS);
+    context.subscriptions.push({ dispose: () => clearInterval(policyTimer) });
+
+    // Pick up admin decisions on pending credit requests
+    const checkCreditDecisions = () => pollCreditDecisions()
+        .then(changed => { if (changed) updateStatusBar(); })
+        .catch(error => console.error('SimpLLM: credit decision check failed', error));
+    checkCreditDecisions();
+    const creditTimer = setInterval(checkCreditDecisions, CREDIT_POLL_MS);
+    context.subscriptions.push({ dispose: () => clearInterval(creditTimer) });
 
     // Watch config changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('simpllm.modelCatalogPath') || e.affectsConfiguration('simpllm.modelCatalogUrl')) {
+                refreshCatalog();
+            }
+            if (e.affectsConfiguration('simpllm.adaptiveRouting')) {
+                syncLearnedRouting();
+            }
+            if (e.affectsConfiguration('simpllm.policyUrl')) {
+                applyCentralPolicy();
+            }
+            const policy = getCentralPolicyStatus().policy;
+            if (policy?.locked && MANAGED_SETTINGS.some(key => e.affectsConfiguration(`simpllm.${key}`))) {
+                vscode.window.showInformationMessage(
+                    `SimpLLM: Routing, budget, team and model settings are locked by central policy v${policy.version}; local changes have no effect.`
+                );
+            }
             if (e.affectsConfiguration('simpllm')) {
-                const cfg = vscode.workspace.getConfiguration('simpllm');
-                adminConfig = {
-                    ...DEFAULT_ADMIN_CONFIG,
-                    taskRouting: cfg.get<Record<string, string>>('taskRouting', {}) as Partial<Record<TaskType, string>>,
-                    blockedModels: cfg.get<string[]>('blockedModels', []),
-                    maxCreditTier: cfg.get<string>('maxCreditTier', 'premium') as CreditTier
-                };
+                loadAdminConfig();
                 updateStatusBar();
             }
         })
     );
 
+    // Local catalog manifests are ignored until the workspace is trusted
+    context.subscriptions.push(vscode.workspace.onDidGrantWorkspaceTrust(refreshCatalog));
+
+    // Reload the catalog when the workspace override changes
+    const catalogWatcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_CATALOG_PATH}`);
+    catalogWatcher.onDidChange(refreshCatalog);
+    catalogWatcher.onDidCreate(refreshCatalog);
+    catalogWatcher.onDidDelete(refreshCatalog);
+    context.subscriptions.push(catalogWatcher);
+
     // Status bar
     statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
     statusBarItem.command = 'simpllm.setTier';
@@ -606,16 +1732,34 @@ export function activate(context: vscode.ExtensionContext) {
     // Commands
     context.subscriptions.push(
         vscode.commands.registerCommand('simpllm.setTier', showModelPicker),
-        vscode.commands.registerCommand('simpllm.showStats', () => openAdminPanel(context, sessionStats)),
-        vscode.commands.registerCommand('simpllm.openAdmin', () => openAdminPanel(context, sessionStats)),
+        vscode.commands.registerCommand('simpllm.showStats', () => openAdminPanel(context, getUsageStats())),
+        vscode.commands.registerCommand('simpllm.openAdmin', () => openAdminPanel(context, getUsageStats())),
         vscode.commands.registerCommand('simpllm.retryWithModel', retryWithModel),
         vscode.commands.registerCommand('simpllm.requestCredits', requestExtraCredits),
-        vscode.commands.registerCommand('simpllm.feedbackPositive', async (requestId: string, model: string, taskType: string) => {
-            await recordFeedback(requestId, model, taskType, 'positive');
+        vscode.commands.registerCommand('simpllm.signIn', async () => {
+            // Send whatever queued up while signed out
+            if (await signIn()) flushOutbox();
+        }),
+        vscode.commands.registerCommand('simpllm.signOut', signOut),
+        vscode.commands.registerCommand('simpllm.exportData', exportData),
+        vscode.commands.registerCommand('simpllm.importData', importData),
+        vscode.commands.registerCommand('simpllm.reloadModelCatalog', async () => {
+            const status = await reloadCatalog();
+            await reconcileAvailability();
+            updateStatusBar();
+            vscode.window.showInformationMessage(
+                `SimpLLM: Model catalog v${status.version} loaded (${status.modelCount} models from ${status.sources.map(s => s.source).join(', ')})`
+            );
+        }),
+        vscode.commands.registerCommand('simpllm.confirmRoute', confirmRoute),
+        vscode.commands.registerCommand('simpllm.compareAnswers', compareAnswers),
+        vscode.commands.registerCommand('simpllm.compareVote', recordCompareVote),
+        vscode.commands.registerCommand('simpllm.feedbackPositive', async (requestId: string, model: string, taskType: string, details?: RequestDetails) => {
+            await recordFeedback(requestId, model, taskType, 'positive', details);
             vscode.window.showInformationMessage('SimpLLM: Thanks for the feedback! 👍');
         }),
-        vscode.commands.registerCommand('simpllm.feedbackNegative', async (requestId: string, model: string, taskType: string) => {
-            await recordFeedback(requestId, model, taskType, 'negative');
+        vscode.commands.registerCommand('simpllm.feedbackNegative', async (requestId: string, model: string, taskType: string, details?: RequestDetails) => {
+            await recordFeedback(requestId, model, taskType, 'negative', details);
             vscode.window.showInformationMessage('SimpLLM: Feedback recorded 👎');
         })
     );
@@ -3,6 +3,8 @@
  * Collects explicit (thumbs up/down) and implicit (model override) feedback
  */
 import * as vscode from 'vscode';
+import { enqueueEvent } from './outbox.js';
+import { initFeedbackStore, appendFeedback, importFeedbackEntries, clearFeedbackStore, getTaskModelAggregates } from './feedbackStore.js';
 
 export interface FeedbackEntry {
     timestamp: string;
@@ -13,18 +15,34 @@ export interface FeedbackEntry {
     overriddenTo?: string;
     promptLength?: number;
     responseTime?: number;
+    inputTokens?: number;
+    outputTokens?: number;
+    experiment?: string;
+    arm?: string;
 }
 
-// In-memory feedback store (persisted to globalState)
-let feedbackLog: FeedbackEntry[] = [];
-let extensionContext: vscode.ExtensionContext;
+export interface TaskModelFeedback {
+    positive: number;
+    negative: number;
+    overrides: number;      // developer switched away from this model
+    overridesTo: number;    // developer switched to this model
+}
+
+// Per-request measurements carried from the chat response to the feedback buttons
+export interface RequestDetails {
+    promptLength?: number;
+    responseTime?: number;
+    inputTokens?: number;
+    outputTokens?: number;
+    experiment?: string;
+    arm?: string;
+}
 
 /**
  * Initialize feedback system
  */
 export function initFeedback(context: vscode.ExtensionContext) {
-    extensionContext = context;
-    feedbackLog = context.globalState.get<FeedbackEntry[]>('simpllm.feedback', []);
+    initFeedbackStore(context);
 }
 
 /**
@@ -42,8 +60,7 @@ export async function recordFeedback(
     selectedModel: string,
     taskType: string,
     rating: 'positive' | 'negative',
-    promptLength?: number,
-    responseTime?: number
+    details: RequestDetails = {}
 ) {
     const entry: FeedbackEntry = {
         timestamp: new Date().toISOString(),
@@ -51,15 +68,13 @@ export async function recordFeedback(
         selectedModel,
         taskType,
         rating,
-        promptLength,
-        responseTime
+        ...details
     };
 
-    feedbackLog.push(entry);
-    await persistFeedback();
+    await appendFeedback(entry);
 
-    // Optionally POST to admin endpoint
-    await sendToEndpoint(entry);
+    // Queue for the admin endpoint (a later vote on the same answer replaces an unsent one)
+    await enqueueEvent('feedback', `${requestId}:vote`, { ...entry });
 }
 
 /**
@@ -69,7 +84,8 @@ export async function recordOverride(
     requestId: string,
     originalModel: string,
     overriddenTo: string,
-    taskType: string
+    taskType: string,
+    details: RequestDetails = {}
 ) {
     const entry: FeedbackEntry = {
         timestamp: new Date().toISOString(),
@@ -77,50 +93,12 @@ export async function recordOverride(
         selectedModel: originalModel,
         taskType,
         rating: 'override',
-        overriddenTo
+        overriddenTo,
+        ...details
     };
 
-    feedbackLog.push(entry);
-    await persistFeedback();
-    await sendToEndpoint(entry);
-}
-
-/**
- * Persist to globalState
- */
-async function persistFeedback() {
-    // Keep last 1000 entries
-    if (feedbackLog.length > 1000) {
-        feedbackLog = feedbackLog.slice(-1000);
-    }
-    await extensionContext.globalState.update('simpllm.feedback', feedbackLog);
-}
-
-/**
- * Send feedback to configured endpoint (if set)
- */
-async function sendToEndpoint(entry: FeedbackEntry) {
-    const config = vscode.workspace.getConfiguration('simpllm');
-    const endpoint = config.get<string>('feedbackEndpoint', '');
-
-    if (!endpoint) return;
-
-    try {
-        const response = await fetch(endpoint, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                ...entry,
-                teamId: config.get<string>('teamId', ''),
-                departmentId: config.get<string>('departmentId', '')
-            })
-        });
-        if (!response.ok) {
-            console.warn(`SimpLLM feedback endpoint returned ${response.status}`);
-        }
-    } catch {
-        // Silently fail - feedback is optional
-    }
+    await appendFeedback(entry);
+    await enqueueEvent('feedback', `${requestId}:override`, { ...entry });
 }
 
 /**
@@ -133,52 +111,55 @@ export function getFeedbackStats(): {
     overrides: number;
     byModel: Record<string, { positive: number; negative: number; overrides: number }>;
     byTask: Record<string, { positive: number; negative: number }>;
+    byTaskModel: Record<string, Record<string, TaskModelFeedback>>;
 } {
+    const byTaskModel = getTaskModelAggregates();
     const stats = {
-        total: feedbackLog.length,
+        total: 0,
         positive: 0,
         negative: 0,
         overrides: 0,
         byModel: {} as Record<string, { positive: number; negative: number; overrides: number }>,
-        byTask: {} as Record<string, { positive: number; negative: number }>
+        byTask: {} as Record<string, { positive: number; negative: number }>,
+        byTaskModel
     };
 
-    for (const entry of feedbackLog) {
-        if (entry.rating === 'positive') stats.positive++;
-        else if (entry.rating === 'negative') stats.negative++;
-        else stats.overrides++;
-
-        // By model
-        if (!stats.byModel[entry.selectedModel]) {
-            stats.byModel[entry.selectedModel] = { positive: 0, negative: 0, overrides: 0 };
-        }
-        stats.byModel[entry.selectedModel][entry.rating === 'override' ? 'overrides' : entry.rating]++;
-
-        // By task
-        if (!stats.byTask[entry.taskType]) {
-            stats.byTask[entry.taskType] = { positive: 0, negative: 0 };
-        }
-        if (entry.rating !== 'override') {
-            stats.byTask[entry.taskType][entry.rating]++;
+    // Everything derives from the per-segment aggregates, so cost doesn't grow with the log
+    for (const [taskType, models] of Object.entries(byTaskModel)) {
+        const task = stats.byTask[taskType] ??= { positive: 0, negative: 0 };
+        for (const [modelId, counts] of Object.entries(models)) {
+            stats.positive += counts.positive;
+            stats.negative += counts.negative;
+            stats.overrides += counts.overrides;
+            task.positive += counts.positive;
+            task.negative += counts.negative;
+
+            // Models only ever switched to have no ratings of their own
+            if (counts.positive + counts.negative + counts.overrides === 0) continue;
+            const model = stats.byModel[modelId] ??= { positive: 0, negative: 0, overrides: 0 };
+            model.positive += counts.positive;
+            model.negative += counts.negative;
+            model.overrides += counts.overrides;
         }
     }
+    stats.total = stats.positive + stats.negative + stats.overrides;
 
     return stats;
 }
 
 /**
- * Get all feedback entries (for admin panel)
+ * Merge entries exported on another machine, skipping ones already present.
+ * Returns how many were added.
  */
-export function getFeedbackLog(): FeedbackEntry[] {
-    return [...feedbackLog];
+export async function importFeedback(entries: FeedbackEntry[]): Promise<number> {
+    return importFeedbackEntries(entries);
 }
 
 /**
  * Clear all feedback data
  */
 export async function clearFeedback() {
-    feedbackLog = [];
-    await extensionContext.globalState.update('simpllm.feedback', []);
+    await clearFeedbackStore();
 }
 
 /**
@@ -188,18 +169,19 @@ export function showFeedbackButtons(
     stream: vscode.ChatResponseStream,
     requestId: string,
     modelName: string,
-    taskType: string
+    taskType: string,
+    details: RequestDetails = {}
 ) {
     // Use chat response follow-ups for feedback
     stream.markdown('\n\n---\n');
     stream.button({
         command: 'simpllm.feedbackPositive',
         title: '👍',
-        arguments: [requestId, modelName, taskType]
+        arguments: [requestId, modelName, taskType, details]
     });
     stream.button({
         command: 'simpllm.feedbackNegative',
         title: '👎',
-        arguments: [requestId, modelName, taskType]
+        arguments: [requestId, modelName, taskType, details]
     });
 }
@@ -0,0 +1,390 @@
+/**
+ * SimpLLM Feedback Store
+ * Append-only monthly JSONL segments under globalStorageUri, with per-segment aggregates indexed in globalState
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FeedbackEntry, TaskModelFeedback } from './feedback.js';
+import { monthKey } from './usage.js';
+
+export interface VoteCounts {
+    positive: number;
+    negative: number;
+    overrides: number;
+}
+
+// Aggregates for one monthly segment, so stats never need to read the segments
+interface SegmentIndex {
+    bytes: number;          // Segment size the aggregates cover
+    count: number;
+    byTaskModel: Record<string, Record<string, TaskModelFeedback>>;
+    byArm: Record<string, VoteCounts>;  // "<experiment>/<arm>"
+    compacted?: boolean;    // Closed month rewritten sorted and deduplicated
+}
+
+export interface FeedbackStoreInfo {
+    entries: number;
+    segments: number;
+    bytes: number;
+    oldestMonth?: string;
+}
+
+const INDEX_KEY = 'simpllm.feedbackIndex';
+const RECENT_KEY = 'simpllm.feedbackRecent';
+const LEGACY_KEY = 'simpllm.feedback';
+const SEGMENT_DIR = 'feedback';
+const SEGMENT_PATTERN = /^(\d{4}-\d{2})\.jsonl$/;
+const RECENT_LIMIT = 100;
+
+let extensionContext: vscode.ExtensionContext;
+let segmentDir = '';
+let index: Record<string, SegmentIndex> = {};   // By month (YYYY-MM)
+let recent: FeedbackEntry[] = [];               // Newest entries, for the admin panel
+let mergedTaskModel: Record<string, Record<string, TaskModelFeedback>> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+let maintainedMonth = '';                       // Month retention and compaction last ran in
+
+/**
+ * Initialize the store: aggregates are available right away from globalState; the
+ * segments are then checked, migrated, trimmed and compacted in the background
+ */
+export function initFeedbackStore(context: vscode.ExtensionContext) {
+    extensionContext = context;
+    segmentDir = path.join(context.globalStorageUri.fsPath, SEGMENT_DIR);
+    loadIndex();
+    maintainedMonth = monthKey(new Date());
+
+    serialized(async () => {
+        await fs.promises.mkdir(segmentDir, { recursive: true });
+        await migrateLegacyLog();
+        await reconcileIndex();
+        await runMaintenance();
+        await persistIndex();
+    });
+}
+
+/**
+ * Run store operations one at a time, so appends and rewrites never interleave
+ */
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const result = queue.then(task);
+    queue = result.catch(error => console.error('SimpLLM: feedback store error', error));
+    return result;
+}
+
+function segmentPath(month: string): string {
+    return path.join(segmentDir, `${month}.jsonl`);
+}
+
+function monthOf(entry: FeedbackEntry): string {
+    return monthKey(new Date(entry.timestamp));
+}
+
+function entryKey(entry: FeedbackEntry): string {
+    return `${entry.requestId}|${entry.rating}|${entry.timestamp}`;
+}
+
+function loadIndex() {
+    // Copies, so changes stay local until persisted
+    index = structuredClone(extensionContext.globalState.get<Record<string, SegmentIndex>>(INDEX_KEY, {}));
+    recent = structuredClone(extensionContext.globalState.get<FeedbackEntry[]>(RECENT_KEY, []));
+    mergedTaskModel = null;
+}
+
+/**
+ * Pick up what other windows wrote since this one last looked: their persisted index,
+ * then segment appends that index does not cover yet. Run before every change, or the
+ * next persist would overwrite their counts with this window's older copy.
+ */
+async function refreshIndex() {
+    loadIndex();
+    await fs.promises.mkdir(segmentDir, { recursive: true });
+    await reconcileIndex();
+}
+
+async function persistIndex() {
+    mergedTaskModel = null;
+    await extensionContext.globalState.update(INDEX_KEY, index);
+    await extensionContext.globalState.update(RECENT_KEY, recent);
+}
+
+// ============================================
+// AGGREGATES
+// ============================================
+
+const emptySegment = (): SegmentIndex => ({ bytes: 0, count: 0, byTaskModel: {}, byArm: {} });
+
+function addToSegment(segment: SegmentIndex, entry: FeedbackEntry) {
+    const field = entry.rating === 'override' ? 'overrides' : entry.rating;
+    segment.count++;
+
+    // Overrides count against the original and for the replacement
+    const taskModels = segment.byTaskModel[entry.taskType] ??= {};
+    const selected = taskModels[entry.selectedModel] ??= { positive: 0, negative: 0, overrides: 0, overridesTo: 0 };
+    selected[field]++;
+    if (entry.rating === 'override' && entry.overriddenTo) {
+        const target = taskModels[entry.overriddenTo] ??= { positive: 0, negative: 0, overrides: 0, overridesTo: 0 };
+        target.overridesTo++;
+    }
+
+    if (entry.experiment && entry.arm) {
+        const votes = segment.byArm[`${entry.experiment}/${entry.arm}`] ??= { positive: 0, negative: 0, overrides: 0 };
+        votes[field]++;
+    }
+}
+
+/**
+ * Feedback per task type and model across all retained segments
+ */
+export function getTaskModelAggregates(): Record<string, Record<string, TaskModelFeedback>> {
+    if (mergedTaskModel) return mergedTaskModel;
+    const merged: Record<string, Record<string, TaskModelFeedback>> = {};
+    for (const segment of Object.values(index)) {
+        for (const [taskType, models] of Object.entries(segment.byTaskModel)) {
+            const target = merged[taskType] ??= {};
+            for (const [modelId, counts] of Object.entries(models)) {
+                const sum = target[modelId] ??= { positive: 0, negative: 0, overrides: 0, overridesTo: 0 };
+                sum.positive += counts.positive;
+                sum.negative += counts.negative;
+                sum.overrides += counts.overrides;
+                sum.overridesTo += counts.overridesTo;
+            }
+        }
+    }
+    mergedTaskModel = merged;
+    return merged;
+}
+
+export function getArmVotes(experimentId: string, armId: string): VoteCounts {
+    const total: VoteCounts = { positive: 0, negative: 0, overrides: 0 };
+    for (const segment of Object.values(index)) {
+        const votes = segment.byArm[`${experimentId}/${armId}`];
+        if (!votes) continue;
+        total.positive += votes.positive;
+        total.negative += votes.negative;
+        total.overrides += votes.overrides;
+    }
+    return total;
+}
+
+export function getRecentFeedback(limit = RECENT_LIMIT): FeedbackEntry[] {
+    return recent.slice(-limit);
+}
+
+export function getStoreInfo(): FeedbackStoreInfo {
+    const months = Object.keys(index).sort();
+    return {
+        entries: months.reduce((sum, m) => sum + index[m].count, 0),
+        segments: months.length,
+        bytes: months.reduce((sum, m) => sum + index[m].bytes, 0),
+        oldestMonth: months[0]
+    };
+}
+
+// ============================================
+// SEGMENTS
+// ============================================
+
+function parseSegment(text: string): FeedbackEntry[] {
+    const entries: FeedbackEntry[] = [];
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            entries.push(JSON.parse(line));
+        } catch {
+            // Torn write from a crash; dropped at the next compaction
+        }
+    }
+    return entries;
+}
+
+async function readSegment(month: string, from = 0): Promise<FeedbackEntry[]> {
+    try {
+        const bytes = await fs.promises.readFile(segmentPath(month));
+        return parseSegment(bytes.subarray(from).toString('utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+}
+
+/**
+ * Append entries to their months' segments (no locking; callers run inside serialized).
+ * The first append of a new month trims and compacts, so long-running sessions roll over too.
+ */
+async function appendEntries(entries: FeedbackEntry[]) {
+    const byMonth = new Map<string, FeedbackEntry[]>();
+    for (const entry of entries) {
+        const month = monthOf(entry);
+        byMonth.set(month, [...(byMonth.get(month) ?? []), entry]);
+    }
+
+    for (const [month, monthEntries] of byMonth) {
+        const text = monthEntries.map(e => JSON.stringify(e)).join('\n') + '\n';
+        await fs.promises.appendFile(segmentPath(month), text, 'utf8');
+        const segment = index[month] ??= emptySegment();
+        segment.bytes += Buffer.byteLength(text, 'utf8');
+        segment.compacted = false;
+        monthEntries.forEach(e => addToSegment(segment, e));
+    }
+
+    recent = [...recent, ...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp)).slice(-RECENT_LIMIT);
+    if (monthKey(new Date()) !== maintainedMonth) await runMaintenance();
+    await persistIndex();
+}
+
+export function appendFeedback(entry: FeedbackEntry): Promise<void> {
+    return serialized(async () => {
+        await refreshIndex();
+        await appendEntries([entry]);
+    });
+}
+
+/**
+ * Merge entries from another machine, skipping ones already stored. Returns how many were added.
+ */
+export function importFeedbackEntries(entries: FeedbackEntry[]): Promise<number> {
+    return serialized(async () => {
+        await refreshIndex();
+        const months = [...new Set(entries.map(monthOf))];
+        const known = new Set<string>();
+        for (const month of months) {
+            (await readSegment(month)).forEach(e => known.add(entryKey(e)));
+        }
+        const added = entries.filter(e => !known.has(entryKey(e)) && known.add(entryKey(e)));
+        if (added.length > 0) await appendEntries(added);
+        return added.length;
+    });
+}
+
+function shiftMonth(month: string, delta: number): string {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return monthKey(new Date(year, monthIndex - 1 + delta, 1));
+}
+
+/**
+ * Entries from segments that may hold days in [from, to] (YYYY-MM-DD, inclusive; unset = open-ended).
+ * Segments are local-time months and timestamps UTC, so callers still filter by timestamp.
+ */
+export function readFeedback(from?: string, to?: string): Promise<FeedbackEntry[]> {
+    const fromMonth = from && shiftMonth(from.slice(0, 7), -1);
+    const toMonth = to && shiftMonth(to.slice(0, 7), 1);
+    return serialized(async () => {
+        await refreshIndex();
+        const months = Object.keys(index).sort()
+            .filter(m => (!fromMonth || m >= fromMonth) && (!toMonth || m <= toMonth));
+        const entries: FeedbackEntry[] = [];
+        for (const month of months) {
+            entries.push(...await readSegment(month));
+        }
+        return entries;
+    });
+}
+
+export function clearFeedbackStore(): Promise<void> {
+    return serialized(async () => {
+        await fs.promises.rm(segmentDir, { recursive: true, force: true });
+        await fs.promises.mkdir(segmentDir, { recursive: true });
+        index = {};
+        recent = [];
+        await persistIndex();
+    });
+}
+
+// ============================================
+// MAINTENANCE
+// ============================================
+
+/**
+ * Move the old globalState array into segments. A crash before the key is cleared
+ * re-imports it; compaction removes the duplicates once the month closes.
+ */
+async function migrateLegacyLog() {
+    const legacy = extensionContext.globalState.get<FeedbackEntry[]>(LEGACY_KEY);
+    if (!legacy) return;
+    if (legacy.length > 0) await appendEntries(legacy);
+    await extensionContext.globalState.update(LEGACY_KEY, undefined);
+}
+
+/**
+ * Bring the index in line with the segments on disk: a crash between append and
+ * index update, or another window's append, leaves a tail to fold in; a missing or
+ * shrunk segment is rebuilt.
+ */
+async function reconcileIndex() {
+    const months = new Set((await fs.promises.readdir(segmentDir))
+        .map(name => SEGMENT_PATTERN.exec(name)?.[1])
+        .filter((m): m is string => !!m));
+
+    for (const month of Object.keys(index)) {
+        if (!months.has(month)) delete index[month];
+    }
+    for (const month of months) {
+        const { size } = await fs.promises.stat(segmentPath(month));
+        const segment = index[month];
+        if (segment?.bytes === size) continue;
+
+        const extendOnly = segment !== undefined && size > segment.bytes;
+        const rebuilt = extendOnly ? segment : emptySegment();
+        (await readSegment(month, extendOnly ? segment.bytes : 0)).forEach(e => addToSegment(rebuilt, e));
+        rebuilt.bytes = size;
+        index[month] = rebuilt;
+    }
+}
+
+/**
+ * Apply retention and compact closed months; runs at startup and on month rollover
+ */
+async function runMaintenance() {
+    maintainedMonth = monthKey(new Date());
+    await applyRetention();
+    await compactClosedSegments();
+}
+
+/**
+ * Delete segments older than simpllm.feedbackRetentionMonths (0 keeps everything)
+ */
+async function applyRetention() {
+    const retention = vscode.workspace.getConfiguration('simpllm').get<number>('feedbackRetentionMonths', 24);
+    if (!(retention > 0)) return;
+
+    const cutoff = new Date();
+    cutoff.setDate(1);
+    cutoff.setMonth(cutoff.getMonth() - (retention - 1));
+    const oldest = monthKey(cutoff);
+
+    for (const month of Object.keys(index)) {
+        if (month >= oldest) continue;
+        await fs.promises.rm(segmentPath(month), { force: true });
+        delete index[month];
+    }
+    recent = recent.filter(e => monthOf(e) >= oldest);
+}
+
+/**
+ * Rewrite each closed month once: sorted, without duplicates or torn lines
+ */
+async function compactClosedSegments() {
+    const current = monthKey(new Date());
+    for (const [month, segment] of Object.entries(index)) {
+        if (month >= current || segment.compacted) continue;
+
+        const seen = new Set<string>();
+        const entries = (await readSegment(month))
+            .filter(e => !seen.has(entryKey(e)) && seen.add(entryKey(e)))
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        const text = entries.map(e => JSON.stringify(e)).join('\n') + (entries.length > 0 ? '\n' : '');
+
+        // Write then rename, so a crash never leaves a half-written segment
+        const temp = `${segmentPath(month)}.tmp`;
+        await fs.promises.writeFile(temp, text, 'utf8');
+        await fs.promises.rename(temp, segmentPath(month));
+
+        const rebuilt = emptySegment();
+        entries.forEach(e => addToSegment(rebuilt, e));
+        rebuilt.bytes = Buffer.byteLength(text, 'utf8');
+        rebuilt.compacted = true;
+        index[month] = rebuilt;
+    }
+}
@@ -0,0 +1,183 @@
+/**
+ * SimpLLM Local Classifier
+ * Weighted keyword and signal scoring across every task type (no API call)
+ */
+import { TaskType, TASK_TYPES_LIST, Classification, Complexity } from './models.js';
+
+export interface LocalSignals {
+    fileReferences?: number;    // Attached files/selections
+    attachmentTokens?: number;  // Estimated size of attached context
+}
+
+export interface TaskScore {
+    type: TaskType;
+    score: number;
+}
+
+// Weighted keywords per task type (English and Turkish). Keywords match whole words
+// plus common English inflections ("fixes", "debugging", "migration"), so "fix" skips
+// "fixture". A trailing * marks a stem that matches any continuation, which Turkish
+// suffixes ("testleri", "hatayı") and word families ("vulnerability") need.
+const TASK_KEYWORDS: Record<TaskType, Array<[string, number]>> = {
+    'autocomplete': [['autocomplete', 3], ['complete', 2], ['finish', 2], ['fill in', 2], ['tamamla*', 3], ['devam et*', 2]],
+    'simple': [
+        ['simple', 1.5], ['basit*', 2], ['kolay*', 1.5], ['typo', 3], ['rename', 2], ['import', 1.5],
+        ['color', 1.5], ['renk*', 1.5], ['format', 1.5], ['quick question', 2], ['yazım hata*', 3]
+    ],
+    'function': [
+        ['function', 1.5], ['fonksiyon*', 1.5], ['method', 1.5], ['metod*', 1.5], ['class', 1.5], ['sınıf*', 1.5],
+        ['write', 1], ['yaz*', 1], ['create', 1], ['oluştur*', 1], ['implement', 1.5]
+    ],
+    'algorithm': [
+        ['algorithm', 3], ['algoritma*', 3], ['sort', 2], ['sırala*', 2], ['search', 1.5], ['binary', 2],
+        ['hash', 1.5], ['recursi*', 2], ['özyinelemeli*', 2], ['big o', 2], ['data structure', 2],
+        ['veri yapı*', 2], ['graph', 1.5], ['dynamic programming', 3]
+    ],
+    'test': [
+        ['test', 3], ['testler*', 3], ['spec', 2], ['jest', 3], ['pytest', 3], ['vitest', 3], ['mocha', 3], ['unit', 1.5],
+        ['integration', 1.5], ['mock', 2], ['coverage', 2], ['birim*', 1.5]
+    ],
+    'debug': [
+        ['debug', 3], ['bug', 3], ['hata*', 2.5], ['error', 2], ['fix', 2], ['düzelt*', 2], ['crash', 3],
+        ['exception', 2.5], ['not working', 2], ['çalışmıyor*', 2.5], ['why', 1], ['neden*', 1], ['stack trace', 3]
+    ],
+    'refactor': [
+        ['refactor', 3], ['yeniden yaz*', 3], ['rewrite', 2], ['clean', 1.5], ['solid', 2], ['design pattern', 2],
+        ['simplify', 1.5], ['sadeleştir*', 2], ['extract', 1.5]
+    ],
+    'architecture': [
+        ['architecture', 3], ['mimari*', 3], ['design', 1.5], ['tasarım*', 1.5], ['microservice', 3],
+        ['mikroservis*', 3], ['scale', 2], ['ölçeklen*', 2], ['system design', 3], ['database schema', 2]
+    ],
+    'security': [
+        ['security', 3], ['güvenlik*', 3], ['vulnerab*', 3], ['zafiyet*', 3], ['xss', 3], ['sql injection', 3],
+        ['csrf', 3], ['owasp', 3], ['auth', 1.5], ['authenticat*', 1.5],
+        ['authoriz*', 1.5], ['encrypt*', 2], ['şifrele*', 2]
+    ],
+    'documentation': [
+        ['document*', 2.5], ['dokümantasyon*', 2.5], ['readme', 3], ['jsdoc', 3], ['docstring', 3],
+        ['comment', 1.5], ['yorum*', 1.5], ['explain', 1.5], ['açıkla*', 1.5]
+    ],
+    'conversion': [
+        ['convert', 3], ['dönüştür*', 3], ['migrate', 2.5], ['taşı*', 1], ['translate', 1.5], ['port to', 2],
+        ['to typescript', 2]
+    ],
+    'review': [
+        ['review', 3], ['incele*', 3], ['best practice', 2], ['improve', 1.5], ['iyileştir*', 1.5],
+        ['check', 1], ['kontrol*', 1]
+    ],
+    'long-context': [
+        ['entire codebase', 3], ['whole project', 3], ['whole codebase', 3], ['tüm proje*', 3],
+        ['all files', 2], ['multiple files', 2], ['birden fazla dosya*', 2]
+    ]
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regex source for one keyword: a stem, or a whole word with its inflections
+ * ("debug" → "debugging", "scale" → "scaling", "simplify" → "simplified")
+ */
+function keywordPattern(keyword: string): string {
+    if (keyword.endsWith('*')) return escapeRegex(keyword.slice(0, -1));
+    const head = escapeRegex(keyword.slice(0, -1));
+    const last = escapeRegex(keyword.slice(-1));
+    const word = last === 'e' ? `${head}(?:e(?:s|d|rs?|ments?)?|ings?|ions?|ations?)`
+        : last === 'y' ? `${head}(?:y|ies|ied|ying|ications?)`
+        : `${head}${last}(?:${last}?(?:s|es|ed|ings?|ers?|ions?|ations?|ments?))?`;
+    return `${word}(?![\\p{L}\\p{N}_])`;
+}
+
+const KEYWORD_PATTERNS = Object.fromEntries(
+    TASK_TYPES_LIST.map(type => [
+        type,
+        TASK_KEYWORDS[type].map(([kw, weight]) => ({
+            regex: new RegExp(`(?<![\\p{L}\\p{N}_])${keywordPattern(kw)}`, 'iu'),
+            weight
+        }))
+    ])
+) as Record<TaskType, Array<{ regex: RegExp; weight: number }>>;
+
+const LANGUAGES = '(?:javascript|typescript|python|java|kotlin|swift|golang|rust|c#|c\\+\\+|php|ruby|scala|cobol)';
+// "python to typescript", "Java'dan Kotlin'e"
+const CONVERSION_PATTERN = new RegExp(`${LANGUAGES}.*?\\b(?:to|into)\\s+${LANGUAGES}|${LANGUAGES}'?(?:dan|den|tan|ten)\\s+${LANGUAGES}`, 'i');
+const STACK_TRACE_PATTERN = /(\bat \S+ \(.*:\d+:\d+\)|Traceback \(most recent call last\)|\bException in thread\b|^\s*File ".*", line \d+)/m;
+
+/**
+ * Score every task type for a prompt, highest first
+ */
+export function scoreTaskTypes(prompt: string, signals: LocalSignals = {}): TaskScore[] {
+    const scores = Object.fromEntries(TASK_TYPES_LIST.map(t => [t, 0])) as Record<TaskType, number>;
+
+    // Keywords are scored on prose only, so identifiers inside code don't dominate
+    const prose = prompt.replace(/```[\s\S]*?```/g, ' ');
+    for (const type of TASK_TYPES_LIST) {
+        for (const { regex, weight } of KEYWORD_PATTERNS[type]) {
+            if (regex.test(prose)) scores[type] += weight;
+        }
+    }
+
+    // Code signals
+    const hasCode = /```/.test(prompt);
+    if (STACK_TRACE_PATTERN.test(prompt)) scores.debug += 3;
+    if (hasCode) {
+        scores.debug += 0.5;
+        scores.refactor += 0.5;
+        scores.review += 0.5;
+        scores.autocomplete -= 1;
+    }
+
+    // Language signals
+    if (CONVERSION_PATTERN.test(prose)) scores.conversion += 3;
+
+    // Size signals: several or large attachments, very long prompts
+    const fileReferences = signals.fileReferences ?? 0;
+    const contextTokens = (signals.attachmentTokens ?? 0) + prompt.length / 4;
+    if (fileReferences >= 3) scores['long-context'] += 1.5 * (fileReferences - 2);
+    if (contextTokens > 50000) scores['long-context'] += 5;
+    else if (contextTokens > 20000) scores['long-context'] += 2;
+    if (prompt.length < 60 && !hasCode) scores.simple += 0.5;
+
+    return TASK_TYPES_LIST
+        .map(type => ({ type, score: Math.max(0, scores[type]) }))
+        .sort((a, b) => b.score - a.score);
+}
+
+// Short prompts of these types are still not "low" complexity
+const INHERENTLY_COMPLEX: TaskType[] = ['algorithm', 'architecture', 'security', 'long-context'];
+
+/**
+ * Estimate complexity from prompt size, code volume and attachments
+ */
+function estimateComplexity(prompt: string, taskType: TaskType, signals: LocalSignals): Complexity {
+    const codeLines = (prompt.match(/```[\s\S]*?```/g) || []).join('\n').split('\n').length;
+    if (prompt.length > 1500 || codeLines > 80 || (signals.fileReferences ?? 0) >= 3) return 'high';
+    if (prompt.length < 80 && codeLines <= 1 && !signals.fileReferences && !INHERENTLY_COMPLEX.includes(taskType)) {
+        return 'low';
+    }
+    return 'medium';
+}
+
+/**
+ * Classify a prompt locally. Confidence reflects how clearly the top task
+ * type beats the runner-up.
+ */
+export function localClassify(prompt: string, signals: LocalSignals = {}): Classification {
+    const ranked = scoreTaskTypes(prompt, signals);
+    const [top, second] = ranked;
+
+    if (top.score === 0) {
+        return { taskType: 'function', confidence: 0.3, complexity: estimateComplexity(prompt, 'function', signals), source: 'local' };
+    }
+
+    // A clear margin over the runner-up and enough total evidence both raise confidence
+    const margin = (top.score - second.score) / top.score;
+    const evidence = Math.min(1, top.score / 3);
+    return {
+        taskType: top.type,
+        secondary: second.score > 0 ? second.type : undefined,
+        confidence: 0.3 + 0.65 * margin * evidence,
+        complexity: estimateComplexity(prompt, top.type, signals),
+        source: 'local'
+    };
+}
@@ -2,6 +2,7 @@
  * SimpLLM Model Database
  * All available models in Akbank GitHub Copilot
  */
+import bundledCatalog from './models.json';
 
 export type CreditTier = 'free' | 'cheap' | 'standard' | 'premium';
 
@@ -23,201 +24,39 @@ export interface ModelDefinition {
 
     // Best for these task types
     bestFor: string[];
+
+    // Offered by Copilot at the last check (undefined until checked, see availability.ts)
+    available?: boolean;
 }
 
 // ============================================
-// AKBANK COPILOT MODELS (Güncel Liste)
+// MODEL CATALOG (models.json + overrides, see catalog.ts)
 // ============================================
 
-export const MODELS: ModelDefinition[] = [
-    // ========== 0x CREDIT (FREE) ==========
-    {
-        id: 'gpt-4.1',
-        family: 'gpt-4.1',
-        name: 'GPT-4.1',
-        creditMultiplier: 0,
-        creditTier: 'free',
-        isPreview: false,
-        capabilities: { codeGeneration: 8, reasoning: 7, speed: 7, contextWindow: 128 },
-        bestFor: ['general', 'debugging', 'functions']
-    },
-    {
-        id: 'gpt-4o',
-        family: 'gpt-4o',
-        name: 'GPT-4o',
-        creditMultiplier: 0,
-        creditTier: 'free',
-        isPreview: false,
-        capabilities: { codeGeneration: 8, reasoning: 8, speed: 8, contextWindow: 128 },
-        bestFor: ['general', 'multimodal', 'debugging', 'documentation']
-    },
-    {
-        id: 'gpt-5-mini',
-        family: 'gpt-5-mini',
-        name: 'GPT-5 Mini',
-        creditMultiplier: 0,
-        creditTier: 'free',
-        isPreview: false,
-        capabilities: { codeGeneration: 7, reasoning: 6, speed: 9, contextWindow: 32 },
-        bestFor: ['simple-tasks', 'quick-questions', 'explanations']
-    },
-
-    // ========== 0.33x CREDIT ==========
-    {
-        id: 'claude-haiku-4.5',
-        family: 'claude-3.5-haiku',
-        name: 'Claude Haiku 4.5',
-        creditMultiplier: 0.33,
-        creditTier: 'cheap',
-        isPreview: false,
-        capabilities: { codeGeneration: 7, reasoning: 6, speed: 9, contextWindow: 32 },
-        bestFor: ['quick-edits', 'comments', 'simple-refactoring']
-    },
-    {
-        id: 'gemini-3-flash',
-        family: 'gemini-flash',
-        name: 'Gemini 3 Flash',
-        creditMultiplier: 0.33,
-        creditTier: 'cheap',
-        isPreview: true,
-        capabilities: { codeGeneration: 7, reasoning: 6, speed: 10, contextWindow: 128 },
-        bestFor: ['quick-tasks', 'formatting']
-    },
-    {
-        id: 'gpt-5.1-codex-mini',
-        family: 'gpt-5.1-codex-mini',
-        name: 'GPT-5.1-Codex-Mini',
-        creditMultiplier: 0.33,
-        creditTier: 'cheap',
-        isPreview: true,
-        capabilities: { codeGeneration: 8, reasoning: 5, speed: 10, contextWindow: 16 },
-        bestFor: ['autocomplete', 'inline-suggestions']
-    },
-
-    // ========== 1x CREDIT ==========
-    {
-        id: 'claude-sonnet-4',
-        family: 'claude-sonnet-4',
-        name: 'Claude Sonnet 4',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: false,
-        capabilities: { codeGeneration: 9, reasoning: 8, speed: 6, contextWindow: 200 },
-        bestFor: ['code-quality', 'design-patterns', 'refactoring']
-    },
-    {
-        id: 'claude-sonnet-4.5',
-        family: 'claude-3.5-sonnet',
-        name: 'Claude Sonnet 4.5',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: false,
-        capabilities: { codeGeneration: 9, reasoning: 9, speed: 6, contextWindow: 200 },
-        bestFor: ['tests', 'complex-algorithms', 'code-review']
-    },
-    {
-        id: 'gemini-2.5-pro',
-        family: 'gemini-2.5-pro',
-        name: 'Gemini 2.5 Pro',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: false,
-        capabilities: { codeGeneration: 8, reasoning: 8, speed: 5, contextWindow: 1000 },
-        bestFor: ['long-context', 'codebase-analysis', 'multi-file']
-    },
-    {
-        id: 'gemini-3-pro',
-        family: 'gemini-3-pro',
-        name: 'Gemini 3 Pro',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: true,
-        capabilities: { codeGeneration: 8, reasoning: 8, speed: 6, contextWindow: 128 },
-        bestFor: ['modern-frameworks', 'multimodal']
-    },
-    {
-        id: 'gpt-5',
-        family: 'gpt-5',
-        name: 'GPT-5',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: false,
-        capabilities: { codeGeneration: 9, reasoning: 9, speed: 6, contextWindow: 128 },
-        bestFor: ['complex-reasoning', 'system-design']
-    },
-    {
-        id: 'gpt-5-codex',
-        family: 'gpt-5-codex',
-        name: 'GPT-5-Codex',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: true,
-        capabilities: { codeGeneration: 9, reasoning: 8, speed: 7, contextWindow: 64 },
-        bestFor: ['code-generation', 'completions']
-    },
-    {
-        id: 'gpt-5.1',
-        family: 'gpt-5.1',
-        name: 'GPT-5.1',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: false,
-        capabilities: { codeGeneration: 9, reasoning: 9, speed: 6, contextWindow: 128 },
-        bestFor: ['complex-tasks', 'debugging']
-    },
-    {
-        id: 'gpt-5.1-codex',
-        family: 'gpt-5.1-codex',
-        name: 'GPT-5.1-Codex',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: false,
-        capabilities: { codeGeneration: 9, reasoning: 8, speed: 7, contextWindow: 64 },
-        bestFor: ['code-generation', 'refactoring']
-    },
-    {
-        id: 'gpt-5.1-codex-max',
-        family: 'gpt-5.1-codex-max',
-        name: 'GPT-5.1-Codex-Max',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: false,
-        capabilities: { codeGeneration: 10, reasoning: 9, speed: 5, contextWindow: 128 },
-        bestFor: ['complex-code', 'large-refactoring']
-    },
-    {
-        id: 'gpt-5.2',
-        family: 'gpt-5.2',
-        name: 'GPT-5.2',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: false,
-        capabilities: { codeGeneration: 9, reasoning: 9, speed: 6, contextWindow: 128 },
-        bestFor: ['latest-features', 'complex-reasoning']
-    },
-    {
-        id: 'gpt-5.2-codex',
-        family: 'gpt-5.2-codex',
-        name: 'GPT-5.2-Codex',
-        creditMultiplier: 1,
-        creditTier: 'standard',
-        isPreview: false,
-        capabilities: { codeGeneration: 10, reasoning: 9, speed: 6, contextWindow: 128 },
-        bestFor: ['code-generation', 'latest-patterns']
-    },
-
-    // ========== 3x CREDIT ==========
-    {
-        id: 'claude-opus-4.5',
-        family: 'claude-opus',
-        name: 'Claude Opus 4.5',
-        creditMultiplier: 3,
-        creditTier: 'premium',
-        isPreview: false,
-        capabilities: { codeGeneration: 10, reasoning: 10, speed: 4, contextWindow: 200 },
-        bestFor: ['architecture', 'security-audit', 'critical-systems', 'legacy-modernization']
-    }
-];
+// A catalog entry: a full definition for a new model, or changed fields of a known one
+export type CatalogEntry = Partial<ModelDefinition> & {
+    id: string;
+    retired?: boolean;  // Drop the model from the catalog
+};
+
+export interface CatalogManifest {
+    schemaVersion: number;
+    version: string;
+    models: CatalogEntry[];
+}
+
+export const CATALOG_SCHEMA_VERSION = 1;
+export const BUNDLED_CATALOG = bundledCatalog as CatalogManifest;
+
+// Live catalog; updated in place so every importer sees the merged manifest
+export const MODELS: ModelDefinition[] = [...BUNDLED_CATALOG.models] as ModelDefinition[];
+
+/**
+ * Replace the live catalog contents
+ */
+export function setModels(models: ModelDefinition[]) {
+    MODELS.splice(0, MODELS.length, ...models);
+}
 
 // ============================================
 // TASK TYPES & ROUTING
@@ -228,26 +67,17 @@ export type TaskType =
     | 'test' | 'debug' | 'refactor' | 'architecture'
     | 'security' | 'documentation' | 'conversion' | 'review' | 'long-context';
 
-export interface TaskPattern {
-    type: TaskType;
-    patterns: RegExp[];
-    keywords: string[];
-}
+export type Complexity = 'low' | 'medium' | 'high';
 
-export const TASK_PATTERNS: TaskPattern[] = [
-    { type: 'autocomplete', patterns: [/tamamla|complete|finish/i], keywords: ['autocomplete'] },
-    { type: 'simple', patterns: [/basit|simple|kolay/i], keywords: ['renk', 'color', 'import', 'typo'] },
-    { type: 'function', patterns: [/fonksiyon|function|method/i], keywords: ['yaz', 'write', 'create'] },
-    { type: 'algorithm', patterns: [/algoritma|algorithm|sort|search/i], keywords: ['binary', 'hash', 'recursive'] },
-    { type: 'test', patterns: [/test|spec|jest|pytest/i], keywords: ['unit', 'integration', 'mock'] },
-    { type: 'debug', patterns: [/debug|hata|error|bug|fix/i], keywords: ['neden', 'why', 'crash'] },
-    { type: 'refactor', patterns: [/refactor|yeniden yaz|rewrite/i], keywords: ['pattern', 'solid', 'clean'] },
-    { type: 'architecture', patterns: [/architecture|mimari|design/i], keywords: ['microservice', 'api', 'scale'] },
-    { type: 'security', patterns: [/security|güvenlik|vulnerability/i], keywords: ['sql', 'xss', 'auth'] },
-    { type: 'documentation', patterns: [/document|yorum|readme/i], keywords: ['jsdoc', 'açıkla'] },
-    { type: 'conversion', patterns: [/convert|dönüştür|migrate/i], keywords: ['typescript', 'async'] },
-    { type: 'review', patterns: [/review|incele|check/i], keywords: ['best practice', 'improve'] }
-];
+// Structured result of the classification pass
+export interface Classification {
+    taskType: TaskType;
+    secondary?: TaskType;
+    confidence: number;     // 0-1
+    complexity: Complexity;
+    source: 'classifier' | 'local' | 'fallback';
+    raw?: string;           // Unparsed classifier output
+}
 
 // All valid task types
 export const TASK_TYPES_LIST: TaskType[] = [
@@ -276,6 +106,16 @@ export const DEFAULT_TASK_ROUTING: Record<TaskType, string> = {
 // ADMIN CONFIGURATION (from settings/server)
 // ============================================
 
+// Rules for one department or team; unset fields fall through to the next layer
+export interface PolicyRule {
+    allowedModels?: string[];       // Only these models may be used
+    blockedModels?: string[];       // Added to the blocked models of every other layer
+    defaultModel?: string;          // Routing for task types without a taskRouting entry
+    taskRouting?: Partial<Record<TaskType, string>>;
+    maxCreditTier?: CreditTier;
+    monthlyBudget?: number;         // Credits per developer per month
+}
+
 export interface AdminConfig {
     // Custom routing overrides
     taskRouting: Partial<Record<TaskType, string>>;
@@ -286,17 +126,30 @@ export interface AdminConfig {
     // Max credit tier allowed
     maxCreditTier: CreditTier;
 
-    // Department-specific rules
-    departmentRules?: Record<string, {
-        allowedModels: string[];
-        defaultModel: string;
-    }>;
+    // Credits per developer per month
+    monthlyBudget: number;
+
+    // Model for the classification pass
+    classifierModel: string;
+
+    // Department- and team-specific rules (team > department > global > default)
+    departmentRules?: Record<string, PolicyRule>;
+    teamRules?: Record<string, PolicyRule>;
+
+    // Which of those rules apply to this developer
+    teamId?: string;
+    departmentId?: string;
+
+    // Budget thresholds that cap the credit tier (unset: the built-in policy)
+    budgetPolicy?: Array<{ percent: number; maxTier: CreditTier }>;
 }
 
 export const DEFAULT_ADMIN_CONFIG: AdminConfig = {
     taskRouting: {},
     blockedModels: [],
-    maxCreditTier: 'premium'
+    maxCreditTier: 'premium',
+    monthlyBudget: 300,
+    classifierModel: 'gpt-4o'
 };
 
 // ============================================
@@ -307,45 +160,53 @@ export function getModel(id: string): ModelDefinition | undefined {
     return MODELS.find(m => m.id === id);
 }
 
-export function getModelsByTier(tier: CreditTier): ModelDefinition[] {
-    return MODELS.filter(m => m.creditTier === tier);
+// Credit tiers from cheapest to most expensive
+export const CREDIT_TIER_ORDER: CreditTier[] = ['free', 'cheap', 'standard', 'premium'];
+
+export function isTierWithin(tier: CreditTier, maxTier: CreditTier): boolean {
+    return CREDIT_TIER_ORDER.indexOf(tier) <= CREDIT_TIER_ORDER.indexOf(maxTier);
+}
+
+export function lowerTier(a: CreditTier, b: CreditTier): CreditTier {
+    return isTierWithin(a, b) ? a : b;
 }
 
-export function detectTaskType(prompt: string): TaskType {
-    for (const pattern of TASK_PATTERNS) {
-        for (const regex of pattern.patterns) {
-            if (regex.test(prompt)) return pattern.type;
-        }
-        for (const keyword of pattern.keywords) {
-            if (prompt.toLowerCase().includes(keyword)) return pattern.type;
-        }
-    }
-    return 'function'; // Default
+// Task types that lean on reasoning more than raw code generation
+const REASONING_TASKS: TaskType[] = ['algorithm', 'debug', 'architecture', 'security', 'review', 'long-context'];
+
+/**
+ * Pick the most capable candidate for a task: highest tier first, then
+ * capability score, preferring stable models over previews.
+ */
+export function getBestModelForTask(taskType: TaskType, candidates: ModelDefinition[]): ModelDefinition | undefined {
+    const reasoningWeight = REASONING_TASKS.includes(taskType) ? 0.7 : 0.3;
+    const score = (m: ModelDefinition) =>
+        m.capabilities.reasoning * reasoningWeight + m.capabilities.codeGeneration * (1 - reasoningWeight);
+
+    return [...candidates].sort((a, b) =>
+        CREDIT_TIER_ORDER.indexOf(b.creditTier) - CREDIT_TIER_ORDER.indexOf(a.creditTier) ||
+        score(b) - score(a) ||
+        Number(a.isPreview) - Number(b.isPreview)
+    )[0];
+}
+
+// Tokens held back from the context window for the model's answer
+export const CONTEXT_OUTPUT_RESERVE = 4000;
+
+export function fitsContext(model: ModelDefinition, contextTokens: number): boolean {
+    return model.capabilities.contextWindow * 1000 >= contextTokens + CONTEXT_OUTPUT_RESERVE;
 }
 
-export function getRecommendedModel(
+/**
+ * Pick the cheapest candidate whose context window holds the request,
+ * breaking ties by suitability for the task.
+ */
+export function getCheapestModelThatFits(
     taskType: TaskType,
-    adminConfig: AdminConfig = DEFAULT_ADMIN_CONFIG,
-    contextSize?: number
-): { model: ModelDefinition; reason: string } {
-    // Check for very long context
-    if (contextSize && contextSize > 100000) {
-        const gemini = getModel('gemini-2.5-pro')!;
-        return { model: gemini, reason: 'Long context (>100K tokens)' };
-    }
-
-    // Check admin override
-    const adminRouting = adminConfig.taskRouting[taskType];
-    if (adminRouting) {
-        const model = getModel(adminRouting);
-        if (model) {
-            return { model, reason: `Admin configured: ${taskType}` };
-        }
-    }
-
-    // Use default routing
-    const defaultModelId = DEFAULT_TASK_ROUTING[taskType];
-    const model = getModel(defaultModelId)!;
-
-    return { model, reason: `${taskType} task` };
+    candidates: ModelDefinition[],
+    contextTokens: number
+): ModelDefinition | undefined {
+    const fitting = candidates.filter(m => fitsContext(m, contextTokens));
+    const cheapest = Math.min(...fitting.map(m => m.creditMultiplier));
+    return getBestModelForTask(taskType, fitting.filter(m => m.creditMultiplier === cheapest));
 }
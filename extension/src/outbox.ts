@@ -0,0 +1,212 @@
+/**
+ * SimpLLM Outbox
+ * Durable queue of events for the admin endpoint (persisted to globalStorageUri), sent in batches with backoff
+ */
+import * as vscode from 'vscode';
+import { callEndpoint, EndpointError } from './endpoint.js';
+import { getAdminConfig } from './policy.js';
+
+export type OutboxEventType = 'usage' | 'feedback' | 'credit_request';
+
+interface OutboxEvent {
+    key: string;            // "<type>:<id>"; a newer event with the same key replaces a pending one
+    type: OutboxEventType;
+    payload: Record<string, unknown>;
+    enqueuedAt: string;
+    attempts: number;
+    nextAttemptAt: number;  // Epoch ms; 0 = send as soon as possible
+}
+
+export interface OutboxStats {
+    pending: number;
+    retrying: number;       // Pending events that failed at least once
+    dropped: number;        // Oldest events discarded this session to respect the size cap
+    oldest?: string;
+}
+
+const OUTBOX_FILE = 'outbox.json';
+const MAX_EVENTS = 5000;
+const BATCH_SIZE = 50;
+const BASE_RETRY_MS = 5000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+const FLUSH_INTERVAL_MS = 60 * 1000;
+const FLUSH_DEBOUNCE_MS = 2000;
+
+let queue: OutboxEvent[] = [];
+let dropped = 0;
+let outboxUri: vscode.Uri;
+let loaded: Promise<void> = Promise.resolve();
+let writing: Promise<void> = Promise.resolve();
+let flushing: Promise<void> | null = null;
+let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Initialize outbox: load events left over from earlier sessions and start the flush timer
+ */
+export function initOutbox(context: vscode.ExtensionContext) {
+    outboxUri = vscode.Uri.joinPath(context.globalStorageUri, OUTBOX_FILE);
+    loaded = (async () => {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(outboxUri);
+            const stored: unknown = JSON.parse(new TextDecoder().decode(bytes));
+            // A truncated or hand-edited file keeps only the events that still make sense
+            queue = Array.isArray(stored) ? stored.filter(isOutboxEvent) : [];
+        } catch {
+            queue = [];
+        }
+    })();
+
+    const timer = setInterval(() => flushOutbox(), FLUSH_INTERVAL_MS);
+    context.subscriptions.push({ dispose: () => { clearInterval(timer); clearTimeout(debounceTimer); } });
+    flushOutbox();
+}
+
+function isOutboxEvent(value: unknown): value is OutboxEvent {
+    const event = value as OutboxEvent;
+    return typeof event === 'object' && event !== null && typeof event.key === 'string' &&
+        ['usage', 'feedback', 'credit_request'].includes(event.type) &&
+        typeof event.payload === 'object' && event.payload !== null && !Array.isArray(event.payload) &&
+        typeof event.enqueuedAt === 'string' && Number.isFinite(event.attempts) && Number.isFinite(event.nextAttemptAt);
+}
+
+function getEndpoint(): string {
+    return vscode.workspace.getConfiguration('simpllm').get<string>('feedbackEndpoint', '');
+}
+
+/**
+ * Write the queue to disk; writes are chained so they never interleave
+ */
+function persist(): Promise<void> {
+    const snapshot = new TextEncoder().encode(JSON.stringify(queue));
+    writing = writing
+        .then(async () => {
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(outboxUri, '..'));
+            await vscode.workspace.fs.writeFile(outboxUri, snapshot);
+        })
+        .catch(error => console.warn('SimpLLM: could not persist outbox', error));
+    return writing;
+}
+
+/**
+ * Queue an event for the admin endpoint. Nothing is queued when no endpoint is configured.
+ */
+export async function enqueueEvent(type: OutboxEventType, id: string, payload: Record<string, unknown>) {
+    if (!getEndpoint()) return;
+    await loaded;
+
+    const key = `${type}:${id}`;
+    const existing = queue.find(e => e.key === key);
+    if (existing) {
+        existing.payload = payload;
+    } else {
+        queue.push({ key, type, payload, enqueuedAt: new Date().toISOString(), attempts: 0, nextAttemptAt: 0 });
+        if (queue.length > MAX_EVENTS) {
+            const overflow = queue.length - MAX_EVENTS;
+            queue.splice(0, overflow);
+            dropped += overflow;
+            console.warn(`SimpLLM: outbox full, dropped ${overflow} oldest event(s)`);
+        }
+    }
+    await persist();
+
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => flushOutbox(), FLUSH_DEBOUNCE_MS);
+}
+
+export function isEventPending(type: OutboxEventType, id: string): boolean {
+    return queue.some(e => e.key === `${type}:${id}`);
+}
+
+/**
+ * Send every event that is due, in batches. Concurrent calls share one flush.
+ */
+export function flushOutbox(): Promise<void> {
+    if (!flushing) {
+        flushing = sendDueEvents().finally(() => { flushing = null; });
+    }
+    return flushing;
+}
+
+async function sendDueEvents() {
+    await loaded;
+    const endpoint = getEndpoint();
+    if (!endpoint || queue.length === 0) return;
+
+    let changed = false;
+    for (;;) {
+        const now = Date.now();
+        const batch = queue.filter(e => e.nextAttemptAt <= now).slice(0, BATCH_SIZE);
+        if (batch.length === 0) break;
+        const sentPayloads = batch.map(e => e.payload);
+
+        const result = await deliver(endpoint, batch);
+        changed = true;
+        if (result === 'retry') {
+            for (const event of batch) {
+                event.attempts++;
+                event.nextAttemptAt = now + retryDelay(event.attempts);
+            }
+            break;
+        }
+
+        // Delivered (or rejected for good on their own); events replaced while in flight stay queued
+        queue = queue.filter(e => {
+            const index = batch.indexOf(e);
+            return index === -1 || e.payload !== sentPayloads[index];
+        });
+    }
+    if (changed) await persist();
+}
+
+/**
+ * Exponential backoff with jitter, capped at an hour
+ */
+function retryDelay(attempts: number): number {
+    const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempts - 1));
+    return delay / 2 + Math.random() * delay / 2;
+}
+
+/**
+ * Send a batch. When the server rejects it outright, send the halves separately, so only
+ * events it refuses on their own are dropped (delivered ones are deduplicated by id).
+ */
+async function deliver(endpoint: string, batch: OutboxEvent[]): Promise<'sent' | 'retry'> {
+    const result = await sendBatch(endpoint, batch);
+    if (result !== 'rejected') return result;
+    if (batch.length === 1) {
+        console.warn(`SimpLLM: endpoint rejected event ${batch[0].key}, dropping it`);
+        return 'sent';
+    }
+    const half = Math.ceil(batch.length / 2);
+    if (await deliver(endpoint, batch.slice(0, half)) === 'retry') return 'retry';
+    return deliver(endpoint, batch.slice(half));
+}
+
+async function sendBatch(endpoint: string, batch: OutboxEvent[]): Promise<'sent' | 'retry' | 'rejected'> {
+    const { teamId = '', departmentId = '' } = getAdminConfig();
+    try {
+        await callEndpoint(endpoint, {
+            body: {
+                teamId,
+                departmentId,
+                events: batch.map(e => ({ id: e.key, type: e.type, enqueuedAt: e.enqueuedAt, ...e.payload }))
+            }
+        });
+        return 'sent';
+    } catch (error) {
+        if (error instanceof EndpointError && !error.retryable) {
+            console.warn(`SimpLLM: endpoint rejected a batch of ${batch.length} event(s): ${error.message}`);
+            return 'rejected';
+        }
+        return 'retry';
+    }
+}
+
+export function getOutboxStats(): OutboxStats {
+    return {
+        pending: queue.length,
+        retrying: queue.filter(e => e.attempts > 0).length,
+        dropped,
+        oldest: queue[0]?.enqueuedAt
+    };
+}
@@ -0,0 +1,180 @@
+/**
+ * SimpLLM Policy
+ * Resolves global, department and team rules into the policy that applies to this developer
+ */
+import * as vscode from 'vscode';
+import {
+    AdminConfig,
+    PolicyRule,
+    CreditTier,
+    TaskType,
+    DEFAULT_ADMIN_CONFIG,
+    DEFAULT_TASK_ROUTING,
+    TASK_TYPES_LIST,
+    CREDIT_TIER_ORDER,
+    getModel
+} from './models.js';
+import { getCentralPolicy } from './centralPolicy.js';
+import { getApprovedCredits } from './credits.js';
+
+// Where a resolved value came from, most specific first
+export type PolicyLayer = 'team' | 'department' | 'global' | 'default';
+
+export interface Resolved<T> {
+    value: T;
+    layer: PolicyLayer;
+}
+
+export interface EffectivePolicy {
+    teamId: string;
+    departmentId: string;
+    allowedModels: Resolved<string[] | null>;   // null: no allow-list
+    blockedModels: string[];                    // Union of every layer
+    maxCreditTier: Resolved<CreditTier>;
+    monthlyBudget: Resolved<number>;           // Includes approvedCredits
+    approvedCredits: number;                    // Extra credits approved by the admin this month
+}
+
+export const POLICY_LAYER_LABELS: Record<PolicyLayer, string> = {
+    team: 'Team',
+    department: 'Department',
+    global: 'Global',
+    default: 'Default'
+};
+
+// Loaded admin configuration
+let adminConfig: AdminConfig = DEFAULT_ADMIN_CONFIG;
+
+/**
+ * (Re)load the admin configuration: the verified central policy first, then local
+ * settings for whatever it leaves out (unless it is locked)
+ */
+export function loadAdminConfig(): AdminConfig {
+    const config = vscode.workspace.getConfiguration('simpllm');
+    const central = getCentralPolicy();
+    const local: AdminConfig = central?.locked ? DEFAULT_ADMIN_CONFIG : {
+        taskRouting: config.get<Record<string, string>>('taskRouting', {}) as Partial<Record<TaskType, string>>,
+        blockedModels: config.get<string[]>('blockedModels', []),
+        maxCreditTier: config.get<string>('maxCreditTier', 'premium') as CreditTier,
+        monthlyBudget: config.get<number>('monthlyBudget', 300),
+        classifierModel: config.get<string>('classifierModel', 'gpt-4o'),
+        departmentRules: config.get<Record<string, PolicyRule>>('departmentRules', {}),
+        teamRules: config.get<Record<string, PolicyRule>>('teamRules', {}),
+        teamId: config.get<string>('teamId', ''),
+        departmentId: config.get<string>('departmentId', ''),
+        budgetPolicy: config.get<AdminConfig['budgetPolicy']>('budgetPolicy')
+    };
+    adminConfig = { ...local, ...central?.config };
+    return adminConfig;
+}
+
+export function getAdminConfig(): AdminConfig {
+    return adminConfig;
+}
+
+/**
+ * Rule layers that apply to this developer, most specific first
+ */
+function getLayers(): Array<[PolicyLayer, PolicyRule]> {
+    const { teamId, departmentId } = adminConfig;
+    const layers: Array<[PolicyLayer, PolicyRule]> = [];
+
+    const team = teamId ? adminConfig.teamRules?.[teamId] : undefined;
+    if (team) layers.push(['team', team]);
+    const department = departmentId ? adminConfig.departmentRules?.[departmentId] : undefined;
+    if (department) layers.push(['department', department]);
+    layers.push(['global', {
+        blockedModels: adminConfig.blockedModels,
+        taskRouting: adminConfig.taskRouting,
+        maxCreditTier: adminConfig.maxCreditTier,
+        monthlyBudget: adminConfig.monthlyBudget
+    }]);
+    return layers;
+}
+
+function resolve<K extends keyof PolicyRule>(
+    layers: Array<[PolicyLayer, PolicyRule]>,
+    key: K,
+    fallback: NonNullable<PolicyRule[K]>
+): Resolved<NonNullable<PolicyRule[K]>> {
+    for (const [layer, rule] of layers) {
+        const value = rule[key];
+        if (value !== undefined && value !== null) return { value: value as NonNullable<PolicyRule[K]>, layer };
+    }
+    return { value: fallback, layer: 'default' };
+}
+
+/**
+ * The policy for this developer: the most specific layer that sets a value wins,
+ * except blocked models, which add up across layers. Approved extra credits are
+ * added on top of the monthly budget.
+ */
+export function getEffectivePolicy(): EffectivePolicy {
+    const layers = getLayers();
+    const allowed = layers.find(([, rule]) => rule.allowedModels && rule.allowedModels.length > 0);
+    const budget = resolve(layers, 'monthlyBudget', DEFAULT_ADMIN_CONFIG.monthlyBudget);
+    const approvedCredits = getApprovedCredits();
+
+    return {
+        teamId: adminConfig.teamId ?? '',
+        departmentId: adminConfig.departmentId ?? '',
+        allowedModels: allowed ? { value: allowed[1].allowedModels!, layer: allowed[0] } : { value: null, layer: 'default' },
+        blockedModels: [...new Set(layers.flatMap(([, rule]) => rule.blockedModels ?? []))],
+        maxCreditTier: resolve(layers, 'maxCreditTier', 'premium'),
+        monthlyBudget: { ...budget, value: budget.value + approvedCredits },
+        approvedCredits
+    };
+}
+
+/**
+ * Routing entries for a task type in precedence order. Within a department or team,
+ * per-task routing comes before its default model.
+ */
+export function getRoutingChain(taskType: TaskType): Array<Resolved<string>> {
+    const chain: Array<Resolved<string>> = [];
+    for (const [layer, rule] of getLayers()) {
+        const taskModel = rule.taskRouting?.[taskType];
+        if (taskModel) chain.push({ value: taskModel, layer });
+        if (rule.defaultModel) chain.push({ value: rule.defaultModel, layer });
+    }
+    chain.push({ value: DEFAULT_TASK_ROUTING[taskType], layer: 'default' });
+    return chain;
+}
+
+/**
+ * Check a departmentRules / teamRules object, returning readable errors
+ */
+export function validatePolicyRules(rules: unknown, label: string): string[] {
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+        return [`${label} must be an object keyed by id`];
+    }
+    const errors: string[] = [];
+    const checkModel = (where: string, id: unknown) => {
+        if (typeof id !== 'string' || !getModel(id)) errors.push(`${where}: unknown model ${JSON.stringify(id)}`);
+    };
+
+    for (const [id, rule] of Object.entries(rules as Record<string, PolicyRule>)) {
+        const where = `${label}.${id}`;
+        if (typeof rule !== 'object' || rule === null) {
+            errors.push(`${where} must be an object`);
+            continue;
+        }
+        for (const key of ['allowedModels', 'blockedModels'] as const) {
+            if (rule[key] === undefined) continue;
+            if (!Array.isArray(rule[key])) errors.push(`${where}.${key} must be an array of model ids`);
+            else rule[key]!.forEach(m => checkModel(`${where}.${key}`, m));
+        }
+        if (rule.defaultModel !== undefined) checkModel(`${where}.defaultModel`, rule.defaultModel);
+        for (const [taskType, modelId] of Object.entries(rule.taskRouting ?? {})) {
+            if (!TASK_TYPES_LIST.includes(taskType as TaskType)) errors.push(`${where}.taskRouting: unknown task type "${taskType}"`);
+            checkModel(`${where}.taskRouting.${taskType}`, modelId);
+        }
+        if (rule.maxCreditTier !== undefined && !CREDIT_TIER_ORDER.includes(rule.maxCreditTier)) {
+            errors.push(`${where}.maxCreditTier must be one of ${CREDIT_TIER_ORDER.join(', ')}`);
+        }
+        if (rule.monthlyBudget !== undefined && !(typeof rule.monthlyBudget === 'number' && rule.monthlyBudget >= 0)) {
+            errors.push(`${where}.monthlyBudget must be a number >= 0`);
+        }
+    }
+    return errors;
+}
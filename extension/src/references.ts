@@ -0,0 +1,97 @@
+/**
+ * SimpLLM Chat References
+ * Resolves #file, #selection, #editor and dropped attachments into prompt context
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+export interface ResolvedReference {
+    label: string;
+    content: string;
+    truncated?: boolean;        // Only the first MAX_REFERENCE_BYTES were kept
+}
+
+// Per-reference cap (~128K tokens); larger attachments are cut rather than read whole
+const MAX_REFERENCE_BYTES = 512 * 1024;
+
+/**
+ * Keep text within the per-reference cap (counted in characters, close enough for source text)
+ */
+function capText(label: string, text: string): ResolvedReference {
+    return text.length > MAX_REFERENCE_BYTES
+        ? { label, content: text.slice(0, MAX_REFERENCE_BYTES), truncated: true }
+        : { label, content: text };
+}
+
+/**
+ * Read a file reference, only up to the cap when it is larger. Files not on disk
+ * (untitled, remote) go through the text document instead.
+ */
+async function readFileReference(uri: vscode.Uri, size: number): Promise<ResolvedReference> {
+    const label = vscode.workspace.asRelativePath(uri);
+    if (size <= MAX_REFERENCE_BYTES || uri.scheme !== 'file') {
+        return capText(label, (await vscode.workspace.openTextDocument(uri)).getText());
+    }
+
+    const handle = await fs.promises.open(uri.fsPath, 'r');
+    try {
+        const buffer = Buffer.alloc(MAX_REFERENCE_BYTES);
+        const { bytesRead } = await handle.read(buffer, 0, MAX_REFERENCE_BYTES, 0);
+        return { label, content: buffer.subarray(0, bytesRead).toString('utf8'), truncated: true };
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Resolve chat references into text the selected model can read
+ */
+export async function resolveReferences(
+    references: readonly vscode.ChatPromptReference[]
+): Promise<ResolvedReference[]> {
+    const resolved: ResolvedReference[] = [];
+
+    for (const ref of references) {
+        try {
+            if (ref.value instanceof vscode.Location) {
+                // #selection, #editor: only the referenced range
+                const doc = await vscode.workspace.openTextDocument(ref.value.uri);
+                const { start, end } = ref.value.range;
+                const label = `${vscode.workspace.asRelativePath(ref.value.uri)}:${start.line + 1}-${end.line + 1}`;
+                resolved.push(capText(label, doc.getText(ref.value.range)));
+            } else if (ref.value instanceof vscode.Uri) {
+                // #file and drag-and-drop: the whole file up to the cap, skipping folders
+                const stat = await vscode.workspace.fs.stat(ref.value);
+                if (stat.type & vscode.FileType.Directory) continue;
+                resolved.push(await readFileReference(ref.value, stat.size));
+            } else if (typeof ref.value === 'string') {
+                resolved.push(capText(ref.modelDescription || ref.id, ref.value));
+            }
+        } catch (error) {
+            // Unreadable (binary, deleted) attachments are skipped rather than failing the request
+            console.warn(`SimpLLM could not resolve reference ${ref.id}:`, error);
+        }
+    }
+
+    return resolved;
+}
+
+/**
+ * Render resolved references as a context block for the model
+ */
+export function formatReferences(refs: ResolvedReference[]): string {
+    if (refs.length === 0) return '';
+    const blocks = refs.map(r =>
+        `### ${r.label}${r.truncated ? ` (truncated to the first ${MAX_REFERENCE_BYTES / 1024} KB)` : ''}\n\`\`\`\n${r.content}\n\`\`\``);
+    return `Attached context:\n\n${blocks.join('\n\n')}`;
+}
+
+/**
+ * One-line summary of attached context for the classifier
+ */
+export function summarizeReferences(refs: ResolvedReference[]): string {
+    if (refs.length === 0) return '';
+    const items = refs.map(r => `${r.label} (${r.content.split('\n').length} lines)`);
+    const totalChars = refs.reduce((total, r) => total + r.content.length, 0);
+    return `${refs.length} attachment(s), ~${Math.round(totalChars / 4000)}K tokens: ${items.join(', ')}`;
+}
@@ -0,0 +1,75 @@
+/**
+ * SimpLLM Token Accounting
+ * Counts tokens with the selected model's tokenizer, estimating only when it is unavailable
+ */
+import * as vscode from 'vscode';
+
+/**
+ * Rough estimate (~4 characters per token) for when no tokenizer is available
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Plain text content of a chat message
+ */
+export function messageText(message: vscode.LanguageModelChatMessage): string {
+    return message.content
+        .map(part => part instanceof vscode.LanguageModelTextPart ? part.value : '')
+        .join('');
+}
+
+/**
+ * Count tokens in a piece of text
+ */
+export async function countTextTokens(
+    model: vscode.LanguageModelChat,
+    text: string,
+    token?: vscode.CancellationToken
+): Promise<number> {
+    if (!text) return 0;
+    try {
+        return await model.countTokens(text, token);
+    } catch {
+        return estimateTokens(text);
+    }
+}
+
+/**
+ * Count tokens for each message sent to a model
+ */
+export async function countEachMessage(
+    model: vscode.LanguageModelChat,
+    messages: vscode.LanguageModelChatMessage[],
+    token?: vscode.CancellationToken
+): Promise<number[]> {
+    const counts: number[] = [];
+    for (const message of messages) {
+        try {
+            counts.push(await model.countTokens(message, token));
+        } catch {
+            counts.push(estimateTokens(messageText(message)));
+        }
+    }
+    return counts;
+}
+
+/**
+ * Count tokens for the full message array sent to a model
+ */
+export async function countMessageTokens(
+    model: vscode.LanguageModelChat,
+    messages: vscode.LanguageModelChatMessage[],
+    token?: vscode.CancellationToken
+): Promise<number> {
+    const counts = await countEachMessage(model, messages, token);
+    return counts.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Estimate tokens for a message array before a model has been chosen
+ */
+export function estimateMessageTokens(messages: vscode.LanguageModelChatMessage[]): number {
+    return messages.reduce((total, m) => total + estimateTokens(messageText(m)), 0);
+}
@@ -0,0 +1,141 @@
+/**
+ * SimpLLM Usage Ledger
+ * Durable per-month record of every routed request (persisted to globalState)
+ */
+import * as vscode from 'vscode';
+import { enqueueEvent } from './outbox.js';
+
+export interface UsageEntry {
+    timestamp: string;
+    requestId: string;
+    model: string;
+    taskType: string;
+    creditMultiplier: number;
+    inputTokens: number;
+    outputTokens: number;
+    responseTime?: number;
+    experiment?: string;
+    arm?: string;
+    /** Merged from another machine's export; kept for reports but not charged to this budget */
+    imported?: boolean;
+}
+
+export interface UsageStats {
+    month: string;
+    requestCount: number;
+    tokenCount: { input: number; output: number };
+    creditsByModel: Record<string, number>;
+    requestsByModel: Record<string, number>;
+    taskTypes: Record<string, number>;
+    totalCreditsUsed: number;
+}
+
+const LEDGER_KEY_PREFIX = 'simpllm.usage.';
+
+let extensionContext: vscode.ExtensionContext;
+
+/**
+ * Initialize usage ledger
+ */
+export function initUsage(context: vscode.ExtensionContext) {
+    extensionContext = context;
+}
+
+/**
+ * Calendar month key (YYYY-MM, local time) used to bucket ledger entries
+ */
+export function monthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Read a month's ledger straight from globalState. Every window appends to the same
+ * key, so an in-memory copy would go stale and overwrite the other windows' entries.
+ */
+function readLedger(month: string): UsageEntry[] {
+    return extensionContext.globalState.get<UsageEntry[]>(LEDGER_KEY_PREFIX + month, []);
+}
+
+/**
+ * Record a routed request in the current month's ledger
+ */
+export async function recordUsage(entry: Omit<UsageEntry, 'timestamp'>) {
+    const recorded: UsageEntry = { timestamp: new Date().toISOString(), ...entry };
+    const month = monthKey(new Date());
+    await extensionContext.globalState.update(LEDGER_KEY_PREFIX + month, [...readLedger(month), recorded]);
+    await enqueueEvent('usage', entry.requestId, { ...recorded });
+}
+
+/**
+ * Aggregate this machine's usage for the current calendar month (imported entries excluded)
+ */
+export function getUsageStats(): UsageStats {
+    const month = monthKey(new Date());
+    const stats: UsageStats = {
+        month,
+        requestCount: 0,
+        tokenCount: { input: 0, output: 0 },
+        creditsByModel: {},
+        requestsByModel: {},
+        taskTypes: {},
+        totalCreditsUsed: 0
+    };
+
+    for (const entry of readLedger(month)) {
+        if (entry.imported) continue;
+        stats.requestCount++;
+        stats.tokenCount.input += entry.inputTokens;
+        stats.tokenCount.output += entry.outputTokens;
+        stats.creditsByModel[entry.model] = (stats.creditsByModel[entry.model] || 0) + entry.creditMultiplier;
+        stats.requestsByModel[entry.model] = (stats.requestsByModel[entry.model] || 0) + 1;
+        stats.taskTypes[entry.taskType] = (stats.taskTypes[entry.taskType] || 0) + 1;
+        stats.totalCreditsUsed += entry.creditMultiplier;
+    }
+
+    return stats;
+}
+
+/**
+ * Get ledger entries for a month (defaults to the current month)
+ */
+export function getUsageLog(month = monthKey(new Date())): UsageEntry[] {
+    return [...readLedger(month)];
+}
+
+/**
+ * Merge entries exported on another machine into their months' ledgers, skipping
+ * request ids already recorded. Entries are tagged as imported so they never count
+ * toward this machine's budget. Returns how many were added.
+ */
+export async function importUsage(entries: UsageEntry[]): Promise<number> {
+    const byMonth = new Map<string, UsageEntry[]>();
+    for (const entry of entries) {
+        const month = monthKey(new Date(entry.timestamp));
+        byMonth.set(month, [...(byMonth.get(month) ?? []), entry]);
+    }
+
+    let added = 0;
+    for (const [month, monthEntries] of byMonth) {
+        const existing = readLedger(month);
+        const known = new Set(existing.map(e => e.requestId));
+        const fresh = monthEntries
+            .filter(e => !known.has(e.requestId) && known.add(e.requestId))
+            .map(e => ({ ...e, imported: true }));
+        if (fresh.length === 0) continue;
+
+        const merged = [...existing, ...fresh].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        await extensionContext.globalState.update(LEDGER_KEY_PREFIX + month, merged);
+        added += fresh.length;
+    }
+    return added;
+}
+
+/**
+ * List months that have a stored ledger, oldest first
+ */
+export function getUsageMonths(): string[] {
+    return extensionContext.globalState.keys()
+        .filter(k => k.startsWith(LEDGER_KEY_PREFIX))
+        .map(k => k.slice(LEDGER_KEY_PREFIX.length))
+        .sort();
+}